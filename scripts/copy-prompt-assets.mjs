@@ -1,7 +1,12 @@
 import { cpSync, mkdirSync } from "node:fs";
 
 const source = new URL("../src/prompts/", import.meta.url);
-const target = new URL("../dist/prompts/", import.meta.url);
+const targets = [
+  new URL("../dist/prompts/", import.meta.url),
+  new URL("../dist/cli/prompts/", import.meta.url),
+];
 
-mkdirSync(target, { recursive: true });
-cpSync(source, target, { recursive: true });
+for (const target of targets) {
+  mkdirSync(target, { recursive: true });
+  cpSync(source, target, { recursive: true });
+}
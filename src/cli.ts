@@ -0,0 +1,550 @@
+import { writeFileSync } from "fs";
+import { parseArgs } from "util";
+import { getOctokit } from "@actions/github";
+import OpenAI from "openai";
+import {
+  DEFAULT_MODEL,
+  generateReleaseNotes,
+  judgeVersionBump,
+  loadPromptTemplate,
+  parseModelFailureMode,
+  parseModelList,
+  type ModelCallSettings,
+  type OpenAIClientLike,
+} from "./generate";
+import {
+  buildCommitData,
+  buildPrompt,
+  changelogCompareUrl,
+  changelogVersionLabel,
+  dedupeCommitsByPullRequest,
+  formatContributorsSection,
+  formatVersionRecommendation,
+  getContributors,
+  getCommitShas,
+  isPrereleaseTag,
+  parseConventionalSections,
+  parsePathFilters,
+  parseReleaseLine,
+  parseSourceExtensions,
+  parseStableComparison,
+  parseTagPattern,
+  parseUnsupportedBulletMode,
+  parseVersionRecommendationMode,
+  parseVersionScheme,
+  recommendVersionBump,
+  redactCommitData,
+  resolveCommitRef,
+  resolveLatestTag,
+  resolvePreviousTag,
+  runGit,
+  UNRELEASED_CHANGELOG_LABEL,
+  writeChangelogFile,
+  type Logger,
+} from "./lib";
+import {
+  attachPullRequests,
+  parseExistingReleaseBehavior,
+  writeRelease,
+  writeUnreleasedDraft,
+  type OctokitLike,
+  type RepoContext,
+} from "./release";
+
+export type CliDependencies = {
+  env: NodeJS.ProcessEnv;
+  stdout: (text: string) => void;
+  stderr: (text: string) => void;
+  getOctokit: (token: string) => OctokitLike;
+  createOpenAIClient: (options: {
+    apiKey: string;
+    baseURL?: string;
+  }) => OpenAIClientLike;
+};
+
+const USAGE = `Usage: release-notes-scribe --tag <tag> [options]
+       release-notes-scribe --base-ref <ref> [--head-ref <ref>] [options]
+       release-notes-scribe --unreleased [--head-ref <ref>] [options]
+
+Generate release notes for a local tag (or a ref range) and print them to stdout.
+
+Options:
+  --tag <tag>                        Release tag to describe.
+  --base-ref <ref>                   Preview notes for <ref>..head-ref instead of a tag.
+  --head-ref <ref>                   End of the previewed range. Default: HEAD.
+  --unreleased                       Describe the latest release tag..head-ref; --publish keeps a rolling draft.
+  --previous-tag <tag>               Override the previous tag for comparison.
+  --tag-prefix <prefix>              Package tag prefix before the version (e.g. @scope/pkg@ or pkg-v).
+  --tag-pattern <pattern>            Glob or /regex/ that previous-tag candidates must match.
+  --version-scheme <scheme>          semver, calver, or custom. Default: semver.
+  --compare-stable-to <policy>       previous_stable or nearest. Default: previous_stable.
+  --release-line <width>             Prefer ancestor tags on the same major or minor line, or none. Default: major.
+  --paths <list>                     Comma-separated paths; only commits and diffs under them are included.
+  --model <name>                     Model name. Default: ${DEFAULT_MODEL}.
+  --base-url <url>                   OpenAI-compatible base URL.
+  --max-diff-lines <n>               Max diff lines per commit. Default: 120.
+  --max-commits <n>                  Max commits to include. Default: 200.
+  --max-stage-tokens <n>             Max tokens per summarization stage. Default: 100000.
+  --max-stage-chars <n>              Deprecated; converted to tokens at 4 characters per token.
+  --max-concurrency <n>              Batch summaries requested in parallel. Default: 4.
+  --summary-cache-dir <dir>          Reuse batch summaries cached in this directory.
+  --fallback-models <list>           Comma-separated models to try in order when the model keeps failing.
+  --max-retries <n>                  Retries per model for rate limits, 5xx, and timeouts. Default: 3.
+  --request-timeout <seconds>        Per-call OpenAI timeout. Default: 300.
+  --on-model-failure <mode>          fail, or fallback to notes rendered from commit messages. Default: fail.
+  --source-extensions <list>         Comma/space-separated source file extensions to diff.
+  --conventional-sections <map>      Conventional type to section mapping (e.g. feat=Features,fix=Fixes).
+  --no-conventional-commits          Do not group commits by Conventional Commit type.
+  --pull-requests                    Add pull request context from GitHub (requires GITHUB_TOKEN).
+  --contributors                     Append a Contributors section built from git authors and co-authors.
+  --final-prompt-file <file>         Custom final release-note instructions template.
+  --stage-prompt-file <file>         Custom stage summary instructions template.
+  --structured                       Request schema-validated JSON notes and render Markdown locally.
+  --json-out <file>                  Write structured notes JSON to a file (implies --structured).
+  --unsupported-bullets <mode>       drop, flag, or off for bullets without a matching commit. Default: drop.
+  --recommend-version <mode>         off, commits, or model; logs the recommended next version. Default: off.
+  --no-redact                        Send context to the model without secret redaction.
+  --dry-run                          Print the prompt instead of calling the model.
+  --out <file>                       Write the notes to a file instead of stdout.
+  --changelog <file>                 Insert or replace the tag's section in a Keep a Changelog file.
+  --publish                          Create or update a draft GitHub Release.
+  --repo <owner/name>                Repository to publish to. Defaults to the origin remote.
+  --release-name <name>              Release title when publishing. Defaults to the tag.
+  --prerelease                       Mark the published release as a prerelease. Default: derived from the tag.
+  --existing-release-behavior <b>    update_draft, fail, or update_any. Default: update_draft.
+  -h, --help                         Show this message.
+
+Environment:
+  OPENAI_API_KEY                     Required unless --dry-run is set.
+  OPENAI_BASE_URL                    Used when --base-url is not set.
+  GITHUB_TOKEN                       Required with --publish and --pull-requests.`;
+
+function parsePositiveInteger(
+  value: string | undefined,
+  defaultValue: number,
+  flag: string,
+  minimum = 1
+): number {
+  const parsed = Number.parseInt(value ?? String(defaultValue), 10);
+  if (Number.isNaN(parsed) || parsed < minimum) {
+    throw new Error(
+      minimum === 1
+        ? `${flag} must be a positive integer.`
+        : `${flag} must be an integer >= ${minimum}.`
+    );
+  }
+  return parsed;
+}
+
+export function parseRepository(value: string): RepoContext["repo"] {
+  const match =
+    /^([\w.-]+)\/([\w.-]+)$/.exec(value) ??
+    /github\.com[:/]([\w.-]+)\/([\w.-]+?)(?:\.git)?\/?$/.exec(value);
+  if (!match) {
+    throw new Error(
+      `Unable to determine the GitHub repository from ${value}. Pass --repo owner/name.`
+    );
+  }
+  return { owner: match[1], repo: match[2] };
+}
+
+function repositoryName(override: string): string {
+  const source =
+    override || runGit(["remote", "get-url", "origin"], { allowFailure: true });
+  try {
+    const { owner, repo } = parseRepository(source);
+    return `${owner}/${repo}`;
+  } catch {
+    return "";
+  }
+}
+
+export async function runCli(
+  argv: string[],
+  dependencies: CliDependencies
+): Promise<void> {
+  const { values } = parseArgs({
+    args: argv,
+    options: {
+      tag: { type: "string" },
+      "base-ref": { type: "string" },
+      "head-ref": { type: "string" },
+      unreleased: { type: "boolean" },
+      "previous-tag": { type: "string" },
+      "tag-prefix": { type: "string" },
+      "tag-pattern": { type: "string" },
+      "version-scheme": { type: "string" },
+      "compare-stable-to": { type: "string" },
+      "release-line": { type: "string" },
+      paths: { type: "string" },
+      model: { type: "string" },
+      "base-url": { type: "string" },
+      "max-diff-lines": { type: "string" },
+      "max-commits": { type: "string" },
+      "max-stage-tokens": { type: "string" },
+      "max-stage-chars": { type: "string" },
+      "fallback-models": { type: "string" },
+      "max-concurrency": { type: "string" },
+      "summary-cache-dir": { type: "string" },
+      "max-retries": { type: "string" },
+      "request-timeout": { type: "string" },
+      "on-model-failure": { type: "string" },
+      "source-extensions": { type: "string" },
+      "conventional-sections": { type: "string" },
+      "no-conventional-commits": { type: "boolean" },
+      "pull-requests": { type: "boolean" },
+      contributors: { type: "boolean" },
+      "final-prompt-file": { type: "string" },
+      "stage-prompt-file": { type: "string" },
+      structured: { type: "boolean" },
+      "json-out": { type: "string" },
+      "unsupported-bullets": { type: "string" },
+      "recommend-version": { type: "string" },
+      "no-redact": { type: "boolean" },
+      "dry-run": { type: "boolean" },
+      out: { type: "string" },
+      changelog: { type: "string" },
+      publish: { type: "boolean" },
+      repo: { type: "string" },
+      "release-name": { type: "string" },
+      prerelease: { type: "boolean" },
+      "existing-release-behavior": { type: "string" },
+      help: { type: "boolean", short: "h" },
+    },
+    strict: true,
+  });
+
+  if (values.help) {
+    dependencies.stdout(`${USAGE}\n`);
+    return;
+  }
+
+  const baseRef = values["base-ref"] ?? "";
+  const unreleased = values.unreleased ?? false;
+  if (values["head-ref"] && !baseRef && !unreleased) {
+    throw new Error("--head-ref requires --base-ref or --unreleased.");
+  }
+  if (baseRef && values.tag) {
+    throw new Error("--base-ref cannot be combined with --tag.");
+  }
+  if (unreleased && (baseRef || values.tag)) {
+    throw new Error("--unreleased cannot be combined with --tag or --base-ref.");
+  }
+  const headRef =
+    baseRef || unreleased ? values["head-ref"] || "HEAD" : values.tag ?? "";
+  if (!headRef) {
+    throw new Error(
+      `--tag, --base-ref, or --unreleased is required.\n\n${USAGE}`
+    );
+  }
+  const tag = unreleased ? "Unreleased" : headRef;
+  if (baseRef && values.publish) {
+    throw new Error("--publish requires --tag; ref ranges are preview only.");
+  }
+  if (baseRef && values.changelog) {
+    throw new Error("--changelog requires --tag or --unreleased.");
+  }
+  if (values["dry-run"] && values.publish) {
+    throw new Error("--dry-run and --publish cannot be combined.");
+  }
+
+  const model = values.model || DEFAULT_MODEL;
+  const maxDiffLines = parsePositiveInteger(
+    values["max-diff-lines"],
+    120,
+    "--max-diff-lines"
+  );
+  const maxCommits = parsePositiveInteger(
+    values["max-commits"],
+    200,
+    "--max-commits"
+  );
+  const maxStageTokens = values["max-stage-chars"]
+    ? Math.floor(
+        parsePositiveInteger(values["max-stage-chars"], 0, "--max-stage-chars", 1000) /
+          4
+      )
+    : parsePositiveInteger(values["max-stage-tokens"], 100000, "--max-stage-tokens", 250);
+  const maxConcurrency = parsePositiveInteger(
+    values["max-concurrency"],
+    4,
+    "--max-concurrency"
+  );
+  const modelSettings: ModelCallSettings = {
+    model,
+    fallbackModels: parseModelList(values["fallback-models"] ?? ""),
+    retry: {
+      maxRetries: parsePositiveInteger(values["max-retries"], 3, "--max-retries", 0),
+      timeoutMs:
+        parsePositiveInteger(values["request-timeout"], 300, "--request-timeout") *
+        1000,
+    },
+    onModelFailure: parseModelFailureMode(values["on-model-failure"] ?? ""),
+  };
+  const sourceExtensions = parseSourceExtensions(
+    values["source-extensions"] ?? ""
+  );
+  const sections = values["no-conventional-commits"]
+    ? undefined
+    : parseConventionalSections(values["conventional-sections"] ?? "");
+  const existingReleaseBehavior = parseExistingReleaseBehavior(
+    values["existing-release-behavior"] ?? ""
+  );
+  const unsupportedBullets = parseUnsupportedBulletMode(
+    values["unsupported-bullets"] ?? ""
+  );
+  const recommendVersion = parseVersionRecommendationMode(
+    values["recommend-version"] ?? ""
+  );
+  const templates = {
+    final: loadPromptTemplate(
+      values["final-prompt-file"] ?? "",
+      "--final-prompt-file"
+    ),
+    stage: loadPromptTemplate(
+      values["stage-prompt-file"] ?? "",
+      "--stage-prompt-file"
+    ),
+  };
+
+  const logger: Logger = {
+    info: (message) => dependencies.stderr(`${message}\n`),
+    warning: (message) => dependencies.stderr(`warning: ${message}\n`),
+  };
+  if (values["max-stage-chars"]) {
+    logger.warning(
+      `--max-stage-chars is deprecated; using ${maxStageTokens} tokens. Use --max-stage-tokens instead.`
+    );
+  }
+
+  const paths = parsePathFilters(values.paths ?? "");
+  const versionScheme = parseVersionScheme(values["version-scheme"] ?? "");
+  const tagOptions = {
+    tagPrefix: values["tag-prefix"],
+    tagPattern: parseTagPattern(values["tag-pattern"] ?? ""),
+    versionScheme,
+    compareStableTo: parseStableComparison(values["compare-stable-to"] ?? ""),
+    releaseLine: parseReleaseLine(values["release-line"] ?? ""),
+  };
+  if (baseRef) {
+    resolveCommitRef(baseRef, "--base-ref");
+  }
+  if (baseRef || unreleased) {
+    resolveCommitRef(headRef, "--head-ref");
+  }
+  const previousTag = baseRef
+    ? baseRef
+    : unreleased
+      ? resolveLatestTag(headRef, logger, tagOptions)
+      : resolvePreviousTag(
+          headRef,
+          values["previous-tag"] ?? "",
+          logger,
+          tagOptions
+        );
+  const commitShas = getCommitShas(
+    previousTag,
+    headRef,
+    maxCommits,
+    logger,
+    paths
+  );
+  logger.info(
+    `Comparing ${previousTag || "(empty tree)"}..${headRef}: ${commitShas.length} commit(s).`
+  );
+
+  const connectGitHub = (flag: string) => {
+    const githubToken = dependencies.env.GITHUB_TOKEN;
+    if (!githubToken) {
+      throw new Error(`GITHUB_TOKEN is not set; it is required with ${flag}.`);
+    }
+    const repoContext: RepoContext = {
+      sha: runGit(["rev-parse", `${headRef}^{commit}`]),
+      repo: parseRepository(
+        values.repo || runGit(["remote", "get-url", "origin"])
+      ),
+    };
+    return { octokit: dependencies.getOctokit(githubToken), repoContext };
+  };
+
+  let commits = buildCommitData(
+    commitShas,
+    maxDiffLines,
+    logger,
+    sourceExtensions,
+    paths
+  );
+  if (values["pull-requests"] && commits.length) {
+    const { octokit, repoContext } = connectGitHub("--pull-requests");
+    commits = dedupeCommitsByPullRequest(
+      await attachPullRequests(octokit, repoContext, commits, logger),
+      maxDiffLines
+    );
+  }
+  if (!values["no-redact"]) {
+    const redacted = redactCommitData(commits);
+    commits = redacted.commits;
+    if (redacted.count > 0) {
+      logger.warning(
+        `Possible secret detected; redacted ${redacted.count} value(s) before transmission to OpenAI.`
+      );
+    }
+  }
+
+  if (values["dry-run"]) {
+    dependencies.stdout(`${buildPrompt(tag, previousTag, commits, "", sections)}\n`);
+    return;
+  }
+
+  const apiKey = dependencies.env.OPENAI_API_KEY;
+  if (!apiKey) {
+    throw new Error("OPENAI_API_KEY is not set. Use --dry-run to preview the prompt.");
+  }
+  const repository = repositoryName(values.repo ?? "");
+  const client = dependencies.createOpenAIClient({
+    apiKey,
+    baseURL: values["base-url"] || dependencies.env.OPENAI_BASE_URL || undefined,
+  });
+  if (recommendVersion !== "off") {
+    let recommendation = recommendVersionBump(previousTag, commits);
+    if (recommendVersion === "model") {
+      recommendation = await judgeVersionBump(
+        client,
+        modelSettings,
+        previousTag,
+        commits,
+        recommendation,
+        logger
+      );
+    }
+    logger.info(
+      `Recommended ${recommendation.bump} bump${
+        recommendation.version ? ` to ${recommendation.version}` : ""
+      }:\n${formatVersionRecommendation(recommendation)}`
+    );
+  }
+  const generated = await generateReleaseNotes(
+    client,
+    {
+      ...modelSettings,
+      tag,
+      previousTag,
+      commits,
+      githubNotes: "",
+      maxStageTokens,
+      maxConcurrency,
+      summaryCacheDir: values["summary-cache-dir"] ?? "",
+      sections,
+      templates,
+      templateVariables: {
+        tag,
+        previous_tag: previousTag || "(none)",
+        repo: repository,
+        commit_count: String(commitShas.length),
+        date: new Date().toISOString().slice(0, 10),
+      },
+      structured: Boolean(values.structured || values["json-out"]),
+      sourceShas: commitShas,
+      unsupportedBullets,
+      repositoryUrl: repository ? `https://github.com/${repository}` : "",
+    },
+    logger
+  );
+  if (
+    !generated.usedTemplateFallback &&
+    (generated.retryCount || generated.finalModel !== model)
+  ) {
+    logger.info(
+      `Notes generated by ${generated.finalModel} after ${generated.retryCount} retried call(s).`
+    );
+  }
+  let releaseNotes = generated.releaseNotes;
+  if (values.contributors) {
+    const contributorsSection = formatContributorsSection(
+      getContributors(previousTag, headRef, paths)
+    );
+    if (contributorsSection) {
+      releaseNotes = `${releaseNotes}\n\n${contributorsSection}`;
+    }
+  }
+
+  if (values["json-out"] && generated.structuredNotes) {
+    writeFileSync(
+      values["json-out"],
+      `${JSON.stringify(generated.structuredNotes, null, 2)}\n`
+    );
+    logger.info(`Wrote structured release notes to ${values["json-out"]}.`);
+  }
+
+  if (values.out) {
+    writeFileSync(values.out, `${releaseNotes}\n`);
+    logger.info(`Wrote release notes to ${values.out}.`);
+  } else {
+    dependencies.stdout(`${releaseNotes}\n`);
+  }
+  if (values.changelog) {
+    const label = unreleased
+      ? UNRELEASED_CHANGELOG_LABEL
+      : changelogVersionLabel(tag, versionScheme);
+    writeChangelogFile(values.changelog, {
+      label,
+      date: new Date().toISOString().slice(0, 10),
+      compareUrl: changelogCompareUrl(
+        "https://github.com",
+        repository,
+        previousTag,
+        unreleased ? "HEAD" : tag
+      ),
+      notes: releaseNotes,
+    });
+    logger.info(`Updated the ${label} section of ${values.changelog}.`);
+  }
+
+  if (!values.publish) {
+    return;
+  }
+
+  const { octokit, repoContext } = connectGitHub("--publish");
+  const releaseName = values["release-name"] || tag;
+  const release = unreleased
+    ? await writeUnreleasedDraft(
+        octokit,
+        repoContext,
+        releaseName,
+        releaseNotes,
+        previousTag,
+        undefined,
+        logger
+      )
+    : await writeRelease(
+        octokit,
+        repoContext,
+        tag,
+        releaseName,
+        releaseNotes,
+        true,
+        values.prerelease ?? isPrereleaseTag(tag, versionScheme),
+        existingReleaseBehavior,
+        previousTag,
+        undefined,
+        undefined,
+        logger
+      );
+  logger.info(`Created or updated release ${releaseName} (${release.html_url ?? ""}).`);
+}
+
+export async function main(): Promise<void> {
+  try {
+    await runCli(process.argv.slice(2), {
+      env: process.env,
+      stdout: (text) => process.stdout.write(text),
+      stderr: (text) => process.stderr.write(text),
+      getOctokit: (token) => getOctokit(token) as unknown as OctokitLike,
+      createOpenAIClient: (options) => new OpenAI({ ...options, maxRetries: 0 }),
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    process.stderr.write(`error: ${message}\n`);
+    process.exitCode = 1;
+  }
+}
@@ -0,0 +1,1229 @@
+import { createHash } from "crypto";
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import { join, resolve } from "path";
+import { Tiktoken } from "js-tiktoken/lite";
+import cl100kBase from "js-tiktoken/ranks/cl100k_base";
+import o200kBase from "js-tiktoken/ranks/o200k_base";
+import {
+  buildPrompt,
+  buildVersionBumpPrompt,
+  bumpVersionTag,
+  collectReleaseNoteSources,
+  compareVersionBumps,
+  ensureBreakingChangesSection,
+  ensureStructuredBreakingChanges,
+  extractResponseText,
+  formatBreakingChangesBlock,
+  formatCommitBlock,
+  groupCommitsBySection,
+  parseStructuredReleaseNotes,
+  renderPromptTemplate,
+  renderStructuredReleaseNotes,
+  renderTemplateReleaseNotes,
+  validatePromptTemplate,
+  verifyReleaseNoteSources,
+  verifyStructuredReleaseNoteSources,
+  type CommitData,
+  type Logger,
+  type PromptTemplateVariables,
+  type ReleaseNoteSources,
+  type StructuredReleaseNotes,
+  type UnsupportedBulletMode,
+  type VersionBump,
+  type VersionRecommendation,
+} from "./lib";
+
+export const DEFAULT_MODEL = "gpt-5.6-terra";
+
+type ResponseTextFormat = {
+  format: {
+    type: "json_schema";
+    name: string;
+    schema: Record<string, unknown>;
+    strict: boolean;
+  };
+};
+
+export type OpenAIClientLike = {
+  responses: {
+    create: (
+      args: {
+        model: string;
+        input: string;
+        instructions: string;
+        text?: ResponseTextFormat;
+      },
+      options?: { signal?: AbortSignal }
+    ) => Promise<unknown>;
+  };
+};
+
+export type RetryOptions = {
+  /** Retries per model after the first attempt for 408, 409, 429, 5xx, timeouts, and connection errors. */
+  maxRetries: number;
+  /** Per-call timeout; a call that exceeds it is aborted and retried. */
+  timeoutMs: number;
+  /** First backoff delay; doubles per retry with jitter, capped at one minute. */
+  baseDelayMs: number;
+};
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  maxRetries: 3,
+  timeoutMs: 300_000,
+  baseDelayMs: 1000,
+};
+
+const MAX_RETRY_DELAY_MS = 60_000;
+const RETRYABLE_STATUSES = new Set([408, 409, 429]);
+
+export type ModelFailureMode = "fail" | "fallback";
+
+/** Model selection and retry policy shared by every OpenAI call. */
+export type ModelCallSettings = {
+  model: string;
+  /** Tried in order once a model fails after its retries. */
+  fallbackModels?: string[];
+  retry?: Partial<RetryOptions>;
+  /** With `fallback`, a failure of every model degrades to deterministic output. */
+  onModelFailure?: ModelFailureMode;
+};
+
+export function parseModelFailureMode(input: string): ModelFailureMode {
+  const value = input.trim().toLowerCase() || "fail";
+  if (value === "fail" || value === "fallback") {
+    return value;
+  }
+  throw new Error("on_model_failure must be one of: fail, fallback.");
+}
+
+export function parseModelList(input: string): string[] {
+  return input
+    .split(/[\n,]+/)
+    .map((model) => model.trim())
+    .filter(Boolean);
+}
+
+type ModelCaller = {
+  models: string[];
+  /** Index of the first model still worth calling; fallbacks are sticky. */
+  active: number;
+  retry: RetryOptions;
+  logger: Pick<Logger, "warning">;
+  retryCount: number;
+  lastModel: string;
+  /** Rate-limit backpressure: no call starts before this timestamp. */
+  pausedUntil: number;
+};
+
+const RELEASE_NOTES_FORMAT: ResponseTextFormat = {
+  format: {
+    type: "json_schema",
+    name: "release_notes",
+    strict: true,
+    schema: {
+      type: "object",
+      additionalProperties: false,
+      required: ["sections"],
+      properties: {
+        sections: {
+          type: "array",
+          items: {
+            type: "object",
+            additionalProperties: false,
+            required: ["title", "items"],
+            properties: {
+              title: { type: "string" },
+              items: {
+                type: "array",
+                items: {
+                  type: "object",
+                  additionalProperties: false,
+                  required: ["summary", "commits"],
+                  properties: {
+                    summary: { type: "string" },
+                    commits: { type: "array", items: { type: "string" } },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+  },
+};
+
+const VERSION_BUMP_FORMAT: ResponseTextFormat = {
+  format: {
+    type: "json_schema",
+    name: "version_bump",
+    strict: true,
+    schema: {
+      type: "object",
+      additionalProperties: false,
+      required: ["bump", "reason"],
+      properties: {
+        bump: { type: "string", enum: ["major", "minor", "patch"] },
+        reason: { type: "string" },
+      },
+    },
+  },
+};
+
+export type PromptTemplates = {
+  final?: string;
+  stage?: string;
+};
+
+export type GenerationRequest = ModelCallSettings & {
+  tag: string;
+  previousTag: string;
+  commits: CommitData[];
+  githubNotes: string;
+  /** Token budget for a single prompt, counted with the tokenizer for `model`. */
+  maxStageTokens: number;
+  sections?: Map<string, string>;
+  templates?: PromptTemplates;
+  templateVariables?: PromptTemplateVariables;
+  structured?: boolean;
+  sourceShas?: string[];
+  unsupportedBullets?: UnsupportedBulletMode;
+  /** Base for commit links in template notes, such as `https://github.com/owner/repo`. */
+  repositoryUrl?: string;
+  /** Batch summaries requested at once when the prompt needs batching. */
+  maxConcurrency?: number;
+  /** Directory for cached stage and merge summaries; caching is off when empty. */
+  summaryCacheDir?: string;
+  /**
+   * Notes already published for the earlier commits of the range. Only
+   * `commits` are summarized, and the model merges them into these notes.
+   */
+  previousNotes?: { notes: string; commits: CommitData[] };
+};
+
+export type GenerationResult = {
+  releaseNotes: string;
+  structuredNotes: StructuredReleaseNotes | null;
+  promptCharCount: number;
+  promptTokenCount: number;
+  usedBatching: boolean;
+  /** Summarization passes before the final prompt: 0 unbatched, 1 for commit batches, more when summaries were merged. */
+  summarizationDepth: number;
+  summaryCacheHits: number;
+  summaryCacheMisses: number;
+  unsupportedBulletCount: number;
+  /** Retried OpenAI calls across all models and stages. */
+  retryCount: number;
+  /** Model that produced the final notes, after any fallback; empty for template notes. */
+  finalModel: string;
+  /** True when every model failed and the notes were rendered from commits. */
+  usedTemplateFallback: boolean;
+};
+
+const PROMPTS_DIRECTORY = join(__dirname, ...["prompts"]);
+
+function readPromptAsset(name: string): string {
+  return readFileSync(join(PROMPTS_DIRECTORY, name), "utf8").trim();
+}
+
+const FINAL_RELEASE_PROMPT = readPromptAsset("final-release.md");
+const STAGE_SUMMARY_PROMPT = readPromptAsset("stage-summary.md");
+const STRUCTURED_OUTPUT_PROMPT = readPromptAsset("structured-output.md");
+const SOURCE_CITATIONS_PROMPT = readPromptAsset("source-citations.md");
+const VERSION_BUMP_PROMPT = readPromptAsset("version-bump.md");
+const SUMMARY_MERGE_PROMPT = readPromptAsset("summary-merge.md");
+const INCREMENTAL_UPDATE_PROMPT = readPromptAsset("incremental-update.md");
+
+export function loadPrompt(name: string): string {
+  switch (name) {
+    case "final-release.md":
+      return FINAL_RELEASE_PROMPT;
+    case "stage-summary.md":
+      return STAGE_SUMMARY_PROMPT;
+    case "structured-output.md":
+      return STRUCTURED_OUTPUT_PROMPT;
+    case "source-citations.md":
+      return SOURCE_CITATIONS_PROMPT;
+    case "version-bump.md":
+      return VERSION_BUMP_PROMPT;
+    case "summary-merge.md":
+      return SUMMARY_MERGE_PROMPT;
+    case "incremental-update.md":
+      return INCREMENTAL_UPDATE_PROMPT;
+    default:
+      throw new Error(`Unknown prompt asset: ${name}`);
+  }
+}
+
+export function loadPromptTemplate(
+  path: string,
+  source: string
+): string | undefined {
+  if (!path) {
+    return undefined;
+  }
+  const fullPath = resolve(path);
+  if (!existsSync(fullPath)) {
+    throw new Error(`${source} ${path} not found in the checked-out repository.`);
+  }
+  const template = readFileSync(fullPath, "utf8").trim();
+  if (!template) {
+    throw new Error(`${source} ${path} is empty.`);
+  }
+  validatePromptTemplate(template, `${source} ${path}`);
+  return template;
+}
+
+export type TokenEncodingName = "o200k_base" | "cl100k_base";
+
+export type TokenCounter = {
+  encoding: TokenEncodingName;
+  count: (text: string) => number;
+  /** Cuts text to at most `maxTokens` tokens, ending with `...` when shortened. */
+  trim: (text: string, maxTokens: number) => string;
+};
+
+/** GPT-4 (except 4o and 4.x) and GPT-3.5 use cl100k_base; newer and unknown models use o200k_base. */
+export function tokenEncodingForModel(model: string): TokenEncodingName {
+  const name = model.toLowerCase().split("/").pop() ?? "";
+  return /^(gpt-4(?!o|\.\d)|gpt-3\.5|text-embedding-(3|ada))/.test(name)
+    ? "cl100k_base"
+    : "o200k_base";
+}
+
+const tokenizers = new Map<TokenEncodingName, Tiktoken>();
+
+function tokenizer(encoding: TokenEncodingName): Tiktoken {
+  let cached = tokenizers.get(encoding);
+  if (!cached) {
+    cached = new Tiktoken(encoding === "cl100k_base" ? cl100kBase : o200kBase);
+    tokenizers.set(encoding, cached);
+  }
+  return cached;
+}
+
+export function createTokenCounter(model: string): TokenCounter {
+  const encoding = tokenEncodingForModel(model);
+  // Special-token text such as <|endoftext|> in a diff is counted as plain text.
+  const encode = (text: string) => tokenizer(encoding).encode(text, [], []);
+  return {
+    encoding,
+    count: (text) => encode(text).length,
+    trim: (text, maxTokens) => {
+      const tokens = encode(text);
+      if (tokens.length <= maxTokens) {
+        return text;
+      }
+      return `${tokenizer(encoding).decode(tokens.slice(0, Math.max(0, maxTokens - 1)))}...`;
+    },
+  };
+}
+
+function truncateCommit(
+  commit: CommitData,
+  maxTokens: number,
+  counter: TokenCounter,
+  logger: Pick<Logger, "warning">
+): CommitData {
+  let message = commit.message;
+  let diffLines = [...commit.diffLines];
+  let changed = false;
+
+  const maxMessageTokens = Math.max(50, Math.floor(maxTokens / 4));
+  if (counter.count(message) > maxMessageTokens) {
+    message = counter.trim(message, maxMessageTokens);
+    changed = true;
+  }
+
+  const fits = (lines: string[]) =>
+    counter.count(formatCommitBlock({ ...commit, message, diffLines: lines })) <=
+    maxTokens;
+  if (!fits(diffLines)) {
+    // Keep the longest prefix of the diff that fits.
+    let low = 0;
+    let high = diffLines.length - 1;
+    while (low < high) {
+      const middle = Math.ceil((low + high) / 2);
+      if (fits(diffLines.slice(0, middle))) {
+        low = middle;
+      } else {
+        high = middle - 1;
+      }
+    }
+    diffLines = diffLines.slice(0, low);
+    changed = true;
+  }
+
+  if (!fits(diffLines)) {
+    message = counter.trim(message, Math.max(12, maxTokens - 50));
+    diffLines = [];
+    changed = true;
+  }
+
+  if (changed) {
+    logger.warning(
+      `Commit ${commit.sha.slice(0, 7)} truncated to fit prompt budget.`
+    );
+  }
+
+  return { ...commit, message, diffLines };
+}
+
+function chunkCommits(
+  commits: CommitData[],
+  maxTokens: number,
+  counter: TokenCounter,
+  logger: Pick<Logger, "warning">
+): CommitData[][] {
+  const chunks: CommitData[][] = [];
+  let current: CommitData[] = [];
+  let currentSize = 0;
+
+  for (const commit of commits) {
+    let candidate = commit;
+    let size = counter.count(formatCommitBlock(candidate));
+    if (size > maxTokens) {
+      candidate = truncateCommit(commit, maxTokens, counter, logger);
+      size = counter.count(formatCommitBlock(candidate));
+    }
+
+    // One token covers the blank line between commit blocks.
+    if (current.length && currentSize + size + 1 > maxTokens) {
+      chunks.push(current);
+      current = [];
+      currentSize = 0;
+    }
+
+    current.push(candidate);
+    currentSize += size + 1;
+  }
+
+  if (current.length) {
+    chunks.push(current);
+  }
+
+  return chunks;
+}
+
+function buildSummaryPrompt(
+  currentTag: string,
+  previousTag: string,
+  commits: CommitData[],
+  sections?: Map<string, string>
+): string {
+  return buildPrompt(currentTag, previousTag, commits, "", sections);
+}
+
+type SummaryCache = {
+  directory: string;
+  model: string;
+  hits: number;
+  misses: number;
+};
+
+/**
+ * Returns a cached summary for the same model, instructions key, and input,
+ * or generates one. Summaries answered by a fallback model are not stored.
+ */
+async function cachedSummary(
+  cache: SummaryCache | null,
+  instructionsKey: string,
+  input: string,
+  generate: () => Promise<{ text: string; model: string }>
+): Promise<{ text: string; cached: boolean }> {
+  if (!cache) {
+    return { text: (await generate()).text, cached: false };
+  }
+  const key = createHash("sha256")
+    .update(JSON.stringify([cache.model, instructionsKey, input]))
+    .digest("hex");
+  const path = join(cache.directory, `${key}.md`);
+  if (existsSync(path)) {
+    cache.hits += 1;
+    return { text: readFileSync(path, "utf8"), cached: true };
+  }
+  cache.misses += 1;
+  const { text, model } = await generate();
+  if (model === cache.model) {
+    mkdirSync(cache.directory, { recursive: true });
+    writeFileSync(path, text);
+  }
+  return { text, cached: false };
+}
+
+function buildMergePrompt(
+  currentTag: string,
+  previousTag: string,
+  summaries: string[],
+  sectionTitles: string[]
+): string {
+  const header = [
+    `Release tag: ${currentTag}`,
+    previousTag ? `Previous tag: ${previousTag}` : "Previous tag: (none)",
+    ...(sectionTitles.length
+      ? [`Sections (in order): ${sectionTitles.join(", ")}`]
+      : []),
+    "",
+  ].join("\n");
+  const blocks = summaries.map(
+    (summary, index) => `Batch ${index + 1} summary:\n${summary}`
+  );
+  return `${header}${blocks.join("\n\n")}`;
+}
+
+/** Groups consecutive summaries under the token budget, at least two per group so every pass shrinks the list. */
+function groupSummaries(
+  summaries: string[],
+  maxTokens: number,
+  counter: TokenCounter
+): string[][] {
+  const groups: string[][] = [];
+  let current: string[] = [];
+  let currentSize = 0;
+  for (const summary of summaries) {
+    const size = counter.count(summary) + 5;
+    if (current.length >= 2 && currentSize + size > maxTokens) {
+      groups.push(current);
+      current = [];
+      currentSize = 0;
+    }
+    current.push(summary);
+    currentSize += size;
+  }
+  if (current.length === 1 && groups.length) {
+    groups[groups.length - 1].push(current[0]);
+  } else if (current.length) {
+    groups.push(current);
+  }
+  return groups;
+}
+
+function buildFinalPrompt(
+  currentTag: string,
+  previousTag: string,
+  summaries: string[],
+  githubNotes: string,
+  sectionTitles: string[],
+  breakingBlock: string
+): string {
+  const header = [
+    `Release tag: ${currentTag}`,
+    previousTag ? `Previous tag: ${previousTag}` : "Previous tag: (none)",
+    `Summary batch count: ${summaries.length}`,
+    ...(sectionTitles.length
+      ? [`Sections (in order): ${sectionTitles.join(", ")}`]
+      : []),
+    "",
+  ].join("\n");
+
+  const blocks = summaries.map(
+    (summary, index) => `Batch ${index + 1} summary:\n${summary}`
+  );
+
+  let prompt = `${header}${blocks.join("\n\n")}`;
+  if (breakingBlock) {
+    prompt += `\n\n${breakingBlock}`;
+  }
+  if (githubNotes) {
+    prompt += `\n\nGitHub auto-generated notes (extra context, do not quote verbatim):\n${githubNotes}`;
+  }
+  return prompt;
+}
+
+function createModelCaller(
+  settings: ModelCallSettings,
+  logger: Pick<Logger, "warning">
+): ModelCaller {
+  return {
+    models: [
+      settings.model,
+      ...(settings.fallbackModels ?? []).filter((model) => model !== settings.model),
+    ],
+    active: 0,
+    retry: { ...DEFAULT_RETRY_OPTIONS, ...settings.retry },
+    logger,
+    retryCount: 0,
+    lastModel: settings.model,
+    pausedUntil: 0,
+  };
+}
+
+class RequestTimeoutError extends Error {
+  constructor(timeoutMs: number) {
+    super(`Request timed out after ${timeoutMs} ms.`);
+    this.name = "RequestTimeoutError";
+  }
+}
+
+function errorStatus(error: unknown): number | undefined {
+  const status = (error as { status?: unknown } | null)?.status;
+  return typeof status === "number" ? status : undefined;
+}
+
+function isRetryableError(error: unknown): boolean {
+  const status = errorStatus(error);
+  if (status !== undefined) {
+    return RETRYABLE_STATUSES.has(status) || status >= 500;
+  }
+  return (
+    error instanceof RequestTimeoutError ||
+    /Connection|Timeout/.test(String((error as { name?: unknown } | null)?.name))
+  );
+}
+
+/** Reads `retry-after-ms` or `retry-after` (seconds or an HTTP date) from an API error. */
+function retryAfterMs(error: unknown): number | undefined {
+  const headers = (error as { headers?: unknown } | null)?.headers;
+  const header = (name: string): string | undefined => {
+    if (!headers || typeof headers !== "object") {
+      return undefined;
+    }
+    if (typeof (headers as Headers).get === "function") {
+      return (headers as Headers).get(name) ?? undefined;
+    }
+    const value = (headers as Record<string, unknown>)[name];
+    return typeof value === "string" ? value : undefined;
+  };
+  const milliseconds = Number(header("retry-after-ms"));
+  if (header("retry-after-ms") && Number.isFinite(milliseconds)) {
+    return Math.max(0, milliseconds);
+  }
+  const retryAfter = header("retry-after");
+  if (!retryAfter) {
+    return undefined;
+  }
+  const seconds = Number(retryAfter);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(retryAfter);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+function retryDelayMs(error: unknown, attempt: number, retry: RetryOptions): number {
+  const requested = retryAfterMs(error);
+  if (requested !== undefined) {
+    return Math.min(requested, MAX_RETRY_DELAY_MS);
+  }
+  const backoff = Math.min(retry.baseDelayMs * 2 ** attempt, MAX_RETRY_DELAY_MS);
+  return Math.round(backoff * (0.5 + Math.random() / 2));
+}
+
+function sleep(milliseconds: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, milliseconds));
+}
+
+async function withTimeout<T>(
+  run: (signal: AbortSignal) => Promise<T>,
+  timeoutMs: number
+): Promise<T> {
+  const controller = new AbortController();
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      controller.abort();
+      reject(new RequestTimeoutError(timeoutMs));
+    }, timeoutMs);
+  });
+  try {
+    return await Promise.race([run(controller.signal), timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Maps items with at most `limit` calls in flight and keeps results in input
+ * order. After the first rejection no further items are started.
+ */
+async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  map: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  let failed = false;
+  const worker = async () => {
+    while (!failed && next < items.length) {
+      const index = next;
+      next += 1;
+      try {
+        results[index] = await map(items[index], index);
+      } catch (error) {
+        failed = true;
+        throw error;
+      }
+    }
+  };
+  await Promise.all(
+    Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker)
+  );
+  return results;
+}
+
+function describeError(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+async function callModel(
+  client: OpenAIClientLike,
+  caller: ModelCaller,
+  model: string,
+  input: string,
+  instructions: string,
+  label: string,
+  textFormat?: ResponseTextFormat
+): Promise<string> {
+  for (let attempt = 0; ; attempt += 1) {
+    const pause = caller.pausedUntil - Date.now();
+    if (pause > 0) {
+      await sleep(pause);
+    }
+    try {
+      const response = await withTimeout(
+        (signal) =>
+          client.responses.create(
+            {
+              model,
+              input,
+              instructions,
+              ...(textFormat ? { text: textFormat } : {}),
+            },
+            { signal }
+          ),
+        caller.retry.timeoutMs
+      );
+      const text = extractResponseText(response).trim();
+      if (!text) {
+        throw new Error(`Model response did not include text output (${label}).`);
+      }
+      return text;
+    } catch (error) {
+      if (attempt >= caller.retry.maxRetries || !isRetryableError(error)) {
+        throw error;
+      }
+      const delay = retryDelayMs(error, attempt, caller.retry);
+      if (errorStatus(error) === 429) {
+        caller.pausedUntil = Math.max(caller.pausedUntil, Date.now() + delay);
+      }
+      caller.retryCount += 1;
+      caller.logger.warning(
+        `OpenAI call (${label}) to ${model} failed: ${describeError(error)} ` +
+          `Retrying in ${Math.ceil(delay / 1000)}s (retry ${attempt + 1} of ${caller.retry.maxRetries}).`
+      );
+      await sleep(delay);
+    }
+  }
+}
+
+async function generateResponseText(
+  client: OpenAIClientLike,
+  caller: ModelCaller,
+  input: string,
+  instructions: string,
+  label: string,
+  textFormat?: ResponseTextFormat
+): Promise<string> {
+  const response = await generateModelResponse(
+    client,
+    caller,
+    input,
+    instructions,
+    label,
+    textFormat
+  );
+  return response.text;
+}
+
+/** Like generateResponseText, but also reports which model answered. */
+async function generateModelResponse(
+  client: OpenAIClientLike,
+  caller: ModelCaller,
+  input: string,
+  instructions: string,
+  label: string,
+  textFormat?: ResponseTextFormat
+): Promise<{ text: string; model: string }> {
+  for (;;) {
+    const index = caller.active;
+    const model = caller.models[index];
+    try {
+      const text = await callModel(
+        client,
+        caller,
+        model,
+        input,
+        instructions,
+        label,
+        textFormat
+      );
+      caller.lastModel = model;
+      return { text, model };
+    } catch (error) {
+      if (caller.active !== index) {
+        // A concurrent call already fell back; retry on the current model.
+        continue;
+      }
+      if (index + 1 >= caller.models.length) {
+        throw error;
+      }
+      caller.active = index + 1;
+      caller.logger.warning(
+        `OpenAI call (${label}) to ${model} failed: ${describeError(error)} ` +
+          `Falling back to ${caller.models[caller.active]}.`
+      );
+    }
+  }
+}
+
+type FinalNotes = Pick<
+  GenerationResult,
+  "releaseNotes" | "structuredNotes" | "unsupportedBulletCount"
+>;
+
+function reportUnsupported(
+  unsupported: string[],
+  mode: UnsupportedBulletMode,
+  logger: Pick<Logger, "warning">
+): void {
+  if (!unsupported.length) {
+    return;
+  }
+  const action = mode === "drop" ? "Dropped" : "Flagged";
+  logger.warning(
+    `${action} ${unsupported.length} release-note bullet(s) with no matching commit in the release range:\n` +
+      unsupported.map((bullet) => `- ${bullet}`).join("\n")
+  );
+}
+
+/** Guarantees the Breaking Changes section in both the Markdown and the structured notes. */
+function withBreakingChanges(notes: FinalNotes, commits: CommitData[]): FinalNotes {
+  if (!notes.structuredNotes) {
+    return {
+      ...notes,
+      releaseNotes: ensureBreakingChangesSection(notes.releaseNotes, commits),
+    };
+  }
+  const structuredNotes = ensureStructuredBreakingChanges(notes.structuredNotes, commits);
+  return {
+    ...notes,
+    releaseNotes: renderStructuredReleaseNotes(structuredNotes),
+    structuredNotes,
+  };
+}
+
+async function generateFinalNotes(
+  client: OpenAIClientLike,
+  caller: ModelCaller,
+  input: string,
+  instructions: string,
+  structured: boolean,
+  sources: ReleaseNoteSources,
+  mode: UnsupportedBulletMode,
+  logger: Pick<Logger, "warning">
+): Promise<FinalNotes> {
+  if (!structured) {
+    const releaseNotes = await generateResponseText(
+      client,
+      caller,
+      input,
+      mode === "off"
+        ? instructions
+        : `${instructions}\n\n${loadPrompt("source-citations.md")}`,
+      "final"
+    );
+    // An empty range has nothing to cite, so its placeholder note is kept as-is.
+    if (mode === "off" || !sources.shas.length) {
+      return { releaseNotes, structuredNotes: null, unsupportedBulletCount: 0 };
+    }
+    const verified = verifyReleaseNoteSources(releaseNotes, sources, mode);
+    reportUnsupported(verified.unsupported, mode, logger);
+    return {
+      releaseNotes: verified.notes,
+      structuredNotes: null,
+      unsupportedBulletCount: verified.unsupported.length,
+    };
+  }
+
+  const text = await generateResponseText(
+    client,
+    caller,
+    input,
+    `${instructions}\n\n${loadPrompt("structured-output.md")}`,
+    "final",
+    RELEASE_NOTES_FORMAT
+  );
+  let structuredNotes = parseStructuredReleaseNotes(text);
+  let unsupportedBulletCount = 0;
+  if (mode !== "off" && sources.shas.length) {
+    const verified = verifyStructuredReleaseNoteSources(
+      structuredNotes,
+      sources,
+      mode
+    );
+    reportUnsupported(verified.unsupported, mode, logger);
+    structuredNotes = verified.notes;
+    unsupportedBulletCount = verified.unsupported.length;
+  }
+  return {
+    releaseNotes: renderStructuredReleaseNotes(structuredNotes),
+    structuredNotes,
+    unsupportedBulletCount,
+  };
+}
+
+/** Hash of the instructions and output settings behind a release body; a change forces full regeneration. */
+export function releasePromptHash(
+  request: Pick<
+    GenerationRequest,
+    "templates" | "sections" | "structured" | "unsupportedBullets"
+  >
+): string {
+  return createHash("sha256")
+    .update(
+      JSON.stringify([
+        request.templates?.final ?? loadPrompt("final-release.md"),
+        request.templates?.stage ?? loadPrompt("stage-summary.md"),
+        [...(request.sections ?? [])],
+        request.structured ?? false,
+        request.unsupportedBullets ?? "off",
+      ])
+    )
+    .digest("hex")
+    .slice(0, 16);
+}
+
+export async function generateReleaseNotes(
+  client: OpenAIClientLike,
+  request: GenerationRequest,
+  logger: Logger
+): Promise<GenerationResult> {
+  const caller = createModelCaller(request, logger);
+  try {
+    return await generateWithModel(client, caller, request, logger);
+  } catch (error) {
+    if (request.onModelFailure !== "fallback") {
+      throw error;
+    }
+    logger.warning(
+      `Release note generation failed: ${describeError(error)} ` +
+        "Rendering notes from commit messages instead (on_model_failure: fallback)."
+    );
+    const commits = [...(request.previousNotes?.commits ?? []), ...request.commits];
+    return {
+      releaseNotes: ensureBreakingChangesSection(
+        renderTemplateReleaseNotes(commits, request.sections, request.repositoryUrl),
+        commits
+      ),
+      structuredNotes: null,
+      promptCharCount: 0,
+      promptTokenCount: 0,
+      usedBatching: false,
+      summarizationDepth: 0,
+      summaryCacheHits: 0,
+      summaryCacheMisses: 0,
+      unsupportedBulletCount: 0,
+      retryCount: caller.retryCount,
+      finalModel: "",
+      usedTemplateFallback: true,
+    };
+  }
+}
+
+async function generateWithModel(
+  client: OpenAIClientLike,
+  caller: ModelCaller,
+  request: GenerationRequest,
+  logger: Logger
+): Promise<GenerationResult> {
+  const {
+    tag,
+    previousTag,
+    commits,
+    githubNotes,
+    maxStageTokens,
+    sections,
+    templates = {},
+    templateVariables,
+    structured = false,
+    sourceShas = [],
+    unsupportedBullets = "off",
+    maxConcurrency = 1,
+    summaryCacheDir = "",
+    previousNotes,
+  } = request;
+  const releaseCommits = previousNotes ? [...previousNotes.commits, ...commits] : commits;
+  const sources = collectReleaseNoteSources(sourceShas, releaseCommits);
+  if (previousNotes && !commits.length) {
+    logger.info("No new commits since the existing release notes; keeping them.");
+    return {
+      releaseNotes: previousNotes.notes,
+      structuredNotes: null,
+      promptCharCount: 0,
+      promptTokenCount: 0,
+      usedBatching: false,
+      summarizationDepth: 0,
+      summaryCacheHits: 0,
+      summaryCacheMisses: 0,
+      unsupportedBulletCount: 0,
+      retryCount: caller.retryCount,
+      finalModel: request.model,
+      usedTemplateFallback: false,
+    };
+  }
+  const render = (template: string) =>
+    templateVariables ? renderPromptTemplate(template, templateVariables) : template;
+  const finalInstructions = [
+    render(templates.final ?? loadPrompt("final-release.md")),
+    ...(previousNotes ? [loadPrompt("incremental-update.md")] : []),
+  ].join("\n\n");
+  const stageTemplate = templates.stage ?? loadPrompt("stage-summary.md");
+  const stageInstructions = render(stageTemplate);
+  // Keyed on the unrendered template: {{commit_count}} and {{date}} change
+  // between runs without changing what a batch summary should say.
+  const stageCacheKey = JSON.stringify([
+    stageTemplate,
+    templateVariables
+      ? [templateVariables.tag, templateVariables.previous_tag, templateVariables.repo]
+      : null,
+  ]);
+
+  const previousNotesBlock = previousNotes
+    ? `\n\nExisting release notes:\n${previousNotes.notes}`
+    : "";
+  const fullPrompt =
+    buildPrompt(tag, previousTag, commits, githubNotes, sections) +
+    previousNotesBlock;
+  const counter = createTokenCounter(request.model);
+  const fullPromptTokens = counter.count(fullPrompt);
+  if (fullPromptTokens <= maxStageTokens) {
+    const finalNotes = await generateFinalNotes(
+      client,
+      caller,
+      fullPrompt,
+      finalInstructions,
+      structured,
+      sources,
+      unsupportedBullets,
+      logger
+    );
+    return {
+      ...finalNotes,
+      ...withBreakingChanges(finalNotes, releaseCommits),
+      promptCharCount: fullPrompt.length,
+      promptTokenCount: fullPromptTokens,
+      usedBatching: false,
+      summarizationDepth: 0,
+      summaryCacheHits: 0,
+      summaryCacheMisses: 0,
+      retryCount: caller.retryCount,
+      finalModel: caller.lastModel,
+      usedTemplateFallback: false,
+    };
+  }
+
+  const chunkBudget = Math.max(250, maxStageTokens - 500);
+  const chunks = chunkCommits(commits, chunkBudget, counter, logger);
+  const concurrency = Math.min(maxConcurrency, chunks.length);
+
+  logger.info(
+    `Full prompt is ${fullPromptTokens} ${counter.encoding} tokens, over the ` +
+      `${maxStageTokens} token budget. ` +
+      `Summarizing in ${chunks.length} batches, ${concurrency} at a time.`
+  );
+
+  const cache: SummaryCache | null = summaryCacheDir
+    ? { directory: resolve(summaryCacheDir), model: request.model, hits: 0, misses: 0 }
+    : null;
+  let summaries = await mapWithConcurrency(
+    chunks,
+    concurrency,
+    async (chunk, index) => {
+      const startedAt = Date.now();
+      const input = buildSummaryPrompt(tag, previousTag, chunk, sections);
+      const summary = await cachedSummary(cache, stageCacheKey, input, () =>
+        generateModelResponse(
+          client,
+          caller,
+          input,
+          stageInstructions,
+          `stage-${index + 1}`
+        )
+      );
+      const seconds = ((Date.now() - startedAt) / 1000).toFixed(1);
+      logger.info(
+        summary.cached
+          ? `Reused cached summary for batch ${index + 1} of ${chunks.length}.`
+          : `Summarized batch ${index + 1} of ${chunks.length} ` +
+              `(${chunk.length} commits) in ${seconds}s.`
+      );
+      return summary.text;
+    }
+  );
+
+  const sectionTitles =
+    sections && releaseCommits.some((commit) => commit.conventional)
+      ? groupCommitsBySection(releaseCommits, sections).map(
+          (section) => section.title
+        )
+      : [];
+  const breakingBlock = formatBreakingChangesBlock(commits);
+  const finalPromptFor = (batchSummaries: string[]) =>
+    buildFinalPrompt(
+      tag,
+      previousTag,
+      batchSummaries,
+      githubNotes,
+      sectionTitles,
+      breakingBlock
+    ) + previousNotesBlock;
+  let finalPrompt = finalPromptFor(summaries);
+  let finalPromptTokens = counter.count(finalPrompt);
+  let depth = 1;
+  while (finalPromptTokens > maxStageTokens && summaries.length > 1) {
+    depth += 1;
+    const groups = groupSummaries(summaries, chunkBudget, counter);
+    logger.info(
+      `Combined summaries are ${finalPromptTokens} tokens, over the ` +
+        `${maxStageTokens} token budget. Merging ${summaries.length} summaries ` +
+        `into ${groups.length} (depth ${depth}).`
+    );
+    summaries = await mapWithConcurrency(
+      groups,
+      Math.min(maxConcurrency, groups.length),
+      async (group, index) => {
+        const startedAt = Date.now();
+        const input = buildMergePrompt(tag, previousTag, group, sectionTitles);
+        const instructions = loadPrompt("summary-merge.md");
+        const summary = await cachedSummary(cache, instructions, input, () =>
+          generateModelResponse(
+            client,
+            caller,
+            input,
+            instructions,
+            `merge-${depth}-${index + 1}`
+          )
+        );
+        const seconds = ((Date.now() - startedAt) / 1000).toFixed(1);
+        logger.info(
+          summary.cached
+            ? `Reused cached summary for group ${index + 1} of ${groups.length}.`
+            : `Merged group ${index + 1} of ${groups.length} ` +
+                `(${group.length} summaries) in ${seconds}s.`
+        );
+        return summary.text;
+      }
+    );
+    finalPrompt = finalPromptFor(summaries);
+    finalPromptTokens = counter.count(finalPrompt);
+  }
+  if (cache) {
+    logger.info(
+      `Summary cache ${cache.directory}: ${cache.hits} hits, ${cache.misses} misses.`
+    );
+  }
+  if (finalPromptTokens > maxStageTokens) {
+    logger.warning(
+      `Final prompt is ${finalPromptTokens} tokens after ${depth} summarization ` +
+        `passes, over the ${maxStageTokens} token budget.`
+    );
+  }
+  const finalNotes = await generateFinalNotes(
+    client,
+    caller,
+    finalPrompt,
+    finalInstructions,
+    structured,
+    sources,
+    unsupportedBullets,
+    logger
+  );
+  return {
+    ...finalNotes,
+    ...withBreakingChanges(finalNotes, releaseCommits),
+    promptCharCount: finalPrompt.length,
+    promptTokenCount: finalPromptTokens,
+    usedBatching: true,
+    summarizationDepth: depth,
+    summaryCacheHits: cache?.hits ?? 0,
+    summaryCacheMisses: cache?.misses ?? 0,
+    retryCount: caller.retryCount,
+    finalModel: caller.lastModel,
+    usedTemplateFallback: false,
+  };
+}
+
+function parseVersionBumpJudgment(
+  text: string
+): { bump: VersionBump; reason: string } | null {
+  try {
+    const parsed = JSON.parse(text) as { bump?: unknown; reason?: unknown };
+    if (
+      ["major", "minor", "patch"].includes(String(parsed.bump)) &&
+      typeof parsed.reason === "string"
+    ) {
+      return { bump: parsed.bump as VersionBump, reason: parsed.reason.trim() };
+    }
+  } catch {
+    // Fall through to the commit-based recommendation.
+  }
+  return null;
+}
+
+/**
+ * Adds the model's judgment to a commit-based recommendation. The model can
+ * raise the bump (for example for unlabelled features) but never lower what
+ * the commit evidence requires; an unusable answer keeps the commit-based
+ * result with a warning.
+ */
+export async function judgeVersionBump(
+  client: OpenAIClientLike,
+  settings: ModelCallSettings,
+  previousTag: string,
+  commits: CommitData[],
+  recommendation: VersionRecommendation,
+  logger: Logger
+): Promise<VersionRecommendation> {
+  let text: string;
+  try {
+    text = await generateResponseText(
+      client,
+      createModelCaller(settings, logger),
+      buildVersionBumpPrompt(previousTag, commits, recommendation),
+      loadPrompt("version-bump.md"),
+      "version-bump",
+      VERSION_BUMP_FORMAT
+    );
+  } catch (error) {
+    if (settings.onModelFailure !== "fallback") {
+      throw error;
+    }
+    logger.warning(
+      `Version bump judgment failed: ${describeError(error)} Using the commit-based recommendation.`
+    );
+    return recommendation;
+  }
+  const judgment = parseVersionBumpJudgment(text);
+  if (!judgment) {
+    logger.warning(
+      "Model version bump judgment was not valid JSON; using the commit-based recommendation."
+    );
+    return recommendation;
+  }
+  const comparison = compareVersionBumps(judgment.bump, recommendation.bump);
+  if (comparison === 0) {
+    return recommendation;
+  }
+  if (comparison < 0) {
+    logger.info(
+      `Model suggested a ${judgment.bump} bump; keeping ${recommendation.bump} from commit evidence.`
+    );
+    return recommendation;
+  }
+  return {
+    bump: judgment.bump,
+    version: bumpVersionTag(previousTag, judgment.bump),
+    reasons: [...recommendation.reasons, `model judgment: ${judgment.reason}`],
+  };
+}
@@ -1,23 +1,65 @@
-import { readFileSync } from "fs";
-import { join } from "path";
 import * as core from "@actions/core";
 import { context, getOctokit } from "@actions/github";
 import OpenAI from "openai";
+import {
+  DEFAULT_MODEL,
+  generateReleaseNotes,
+  judgeVersionBump,
+  loadPromptTemplate,
+  parseModelFailureMode,
+  parseModelList,
+  releasePromptHash,
+  type GenerationRequest,
+  type GenerationResult,
+  type ModelCallSettings,
+  type OpenAIClientLike,
+} from "./generate";
 import {
   buildCommitData,
-  buildPrompt,
-  DEFAULT_SOURCE_EXTENSIONS,
-  extractResponseText,
-  formatCommitBlock,
+  changelogCompareUrl,
+  changelogVersionLabel,
+  dedupeCommitsByPullRequest,
+  formatContributorsSection,
+  formatVersionRecommendation,
   getCommitShas,
+  getContributors,
   getTagFromRef,
+  isAncestor,
+  isPrereleaseTag,
   isShallowRepository,
+  parseConventionalSections,
+  parsePathFilters,
+  parseReleaseLine,
+  parseSourceExtensions,
+  parseStableComparison,
+  parseTagPattern,
+  parseUnsupportedBulletMode,
+  parseVersionRecommendationMode,
+  parseVersionScheme,
   redactCommitData,
+  recommendVersionBump,
   redactPossibleSecrets,
+  resolveCommitRef,
+  resolveLatestTag,
   resolvePreviousTag,
+  UNRELEASED_CHANGELOG_LABEL,
+  writeChangelogFile,
 } from "./lib";
-
-type ExistingReleaseBehavior = "update_draft" | "fail" | "update_any";
+import {
+  attachPullRequests,
+  findUnreleasedDraft,
+  getExistingRelease,
+  parseExistingReleaseBehavior,
+  releaseNotesFromBody,
+  resolveContributorLogins,
+  writeChangelogPullRequest,
+  writePullRequestPreview,
+  writeRelease,
+  writeUnreleasedDraft,
+  type OctokitLike,
+  type ReleaseData,
+  type RepoContext,
+} from "./release";
 
 type ActionCore = {
   getInput: (name: string, options?: { required?: boolean }) => string;
@@ -27,65 +69,20 @@ type ActionCore = {
   setFailed: (message: string) => void;
 };
 
-type ActionContext = {
-  ref?: string;
-  sha: string;
-  repo: {
-    owner: string;
-    repo: string;
-  };
-};
-
-type ReleaseData = {
-  id: number;
-  html_url?: string | null;
-  draft?: boolean;
-};
-
-type OctokitLike = {
-  rest: {
-    repos: {
-      generateReleaseNotes: (args: {
-        owner: string;
-        repo: string;
-        tag_name: string;
-        target_commitish: string;
-        previous_tag_name?: string;
-      }) => Promise<{ data: { body?: string | null } }>;
-      getReleaseByTag: (args: {
-        owner: string;
-        repo: string;
-        tag: string;
-      }) => Promise<{ data: ReleaseData }>;
-      createRelease: (args: ReleaseRequest) => Promise<{ data: ReleaseData }>;
-      updateRelease: (
-        args: ReleaseRequest & { release_id: number }
-      ) => Promise<{ data: ReleaseData }>;
-    };
-  };
+type PullRequestPayload = {
+  number: number;
+  base?: { sha: string; ref: string };
+  head?: { sha: string; ref: string };
 };
 
-type OpenAIClientLike = {
-  responses: {
-    create: (args: {
-      model: string;
-      input: string;
-      instructions: string;
-    }) => Promise<unknown>;
+type ActionContext = RepoContext & {
+  ref?: string;
+  eventName?: string;
+  payload?: {
+    pull_request?: PullRequestPayload;
   };
 };
 
-type ReleaseRequest = {
-  owner: string;
-  repo: string;
-  tag_name: string;
-  name: string;
-  body: string;
-  draft: boolean;
-  prerelease: boolean;
-  target_commitish: string;
-};
-
 export type ActionDependencies = {
   core: ActionCore;
   context: ActionContext;
@@ -109,272 +106,55 @@ function getInputBoolean(
   return ["true", "1", "yes", "y", "on"].includes(raw.toLowerCase());
 }
 
-function parseExistingReleaseBehavior(input: string): ExistingReleaseBehavior {
-  const value = input || "update_draft";
-  if (["update_draft", "fail", "update_any"].includes(value)) {
-    return value as ExistingReleaseBehavior;
-  }
-  throw new Error(
-    "existing_release_behavior must be one of: update_draft, fail, update_any."
-  );
-}
-
-function parseSourceExtensions(input: string): Set<string> {
-  if (!input.trim()) {
-    return new Set(DEFAULT_SOURCE_EXTENSIONS);
-  }
-  const values = input
-    .split(/[\s,]+/)
-    .map((value) => value.trim())
-    .filter(Boolean)
-    .map((value) =>
-      value.startsWith(".") ? value.toLowerCase() : `.${value.toLowerCase()}`
-    );
-  return new Set(values);
-}
-
-const PROMPTS_DIRECTORY = join(__dirname, ...["prompts"]);
-
-function readPromptAsset(name: string): string {
-  return readFileSync(join(PROMPTS_DIRECTORY, name), "utf8").trim();
-}
-
-const FINAL_RELEASE_PROMPT = readPromptAsset("final-release.md");
-const STAGE_SUMMARY_PROMPT = readPromptAsset("stage-summary.md");
-
-function loadPrompt(name: string): string {
-  switch (name) {
-    case "final-release.md":
-      return FINAL_RELEASE_PROMPT;
-    case "stage-summary.md":
-      return STAGE_SUMMARY_PROMPT;
-    default:
-      throw new Error(`Unknown prompt asset: ${name}`);
-  }
-}
-
 function setDiagnosticOutputs(
   actionCore: Pick<ActionCore, "setOutput">,
   previousTag: string,
   commitCount: number,
-  promptCharCount: number,
-  usedBatching: boolean,
-  redactionCount: number
+  redactionCount: number,
+  generated: GenerationResult
 ): void {
   actionCore.setOutput("previous_tag", previousTag);
   actionCore.setOutput("commit_count", String(commitCount));
-  actionCore.setOutput("prompt_char_count", String(promptCharCount));
-  actionCore.setOutput("used_batching", String(usedBatching));
+  actionCore.setOutput("prompt_char_count", String(generated.promptCharCount));
+  actionCore.setOutput("prompt_token_count", String(generated.promptTokenCount));
+  actionCore.setOutput("used_batching", String(generated.usedBatching));
+  actionCore.setOutput("summarization_depth", String(generated.summarizationDepth));
+  actionCore.setOutput("summary_cache_hits", String(generated.summaryCacheHits));
+  actionCore.setOutput("summary_cache_misses", String(generated.summaryCacheMisses));
   actionCore.setOutput("redaction_count", String(redactionCount));
+  actionCore.setOutput("retry_count", String(generated.retryCount));
+  actionCore.setOutput("notes_model", generated.finalModel);
 }
 
-function trimText(text: string, maxLength: number): string {
-  if (text.length <= maxLength) {
-    return text;
-  }
-  if (maxLength <= 3) {
-    return text.slice(0, maxLength);
-  }
-  return `${text.slice(0, maxLength - 3)}...`;
-}
-
-function truncateCommit(
-  commit: Parameters<typeof formatCommitBlock>[0],
-  maxChars: number,
-  logger: { warning: (message: string) => void }
-) {
-  let message = commit.message;
-  let diffLines = [...commit.diffLines];
-  let changed = false;
-
-  const maxMessageLength = Math.max(200, Math.floor(maxChars / 4));
-  if (message.length > maxMessageLength) {
-    message = trimText(message, maxMessageLength);
-    changed = true;
-  }
-
-  let block = formatCommitBlock({ ...commit, message, diffLines });
-  while (block.length > maxChars && diffLines.length) {
-    diffLines.pop();
-    changed = true;
-    block = formatCommitBlock({ ...commit, message, diffLines });
+/**
+ * Returns the notes of the release this run updates when its hidden metadata
+ * shows the same model and prompt produced them from an earlier commit of the
+ * range, so only newer commits need summarizing.
+ */
+function incrementalBaseFor(
+  release: ReleaseData | null,
+  logger: Pick<ActionCore, "info">,
+  options: { previousTag: string; headSha: string; model: string; promptHash: string }
+): { head: string; notes: string } | null {
+  const metadata = release?.metadata;
+  const notes = releaseNotesFromBody(release?.body ?? "");
+  if (!metadata || !notes) {
+    return null;
   }
-
-  if (block.length > maxChars && diffLines.length) {
-    diffLines = [];
-    changed = true;
-  }
-
-  if (block.length > maxChars) {
-    message = trimText(message, Math.max(50, maxChars - 200));
-    diffLines = [];
-    changed = true;
-  }
-
-  if (changed) {
-    logger.warning(
-      `Commit ${commit.sha.slice(0, 7)} truncated to fit prompt budget.`
-    );
-  }
-
-  return { ...commit, message, diffLines };
-}
-
-function chunkCommits(
-  commits: Parameters<typeof formatCommitBlock>[0][],
-  maxChars: number,
-  logger: { warning: (message: string) => void }
-) {
-  const chunks: typeof commits[] = [];
-  let current: typeof commits = [];
-  let currentSize = 0;
-
-  for (const commit of commits) {
-    let candidate = commit;
-    let block = formatCommitBlock(candidate);
-    if (block.length > maxChars) {
-      candidate = truncateCommit(commit, maxChars, logger);
-      block = formatCommitBlock(candidate);
-    }
-
-    if (current.length && currentSize + block.length + 2 > maxChars) {
-      chunks.push(current);
-      current = [];
-      currentSize = 0;
-    }
-
-    current.push(candidate);
-    currentSize += block.length + 2;
-  }
-
-  if (current.length) {
-    chunks.push(current);
-  }
-
-  return chunks;
-}
-
-function buildSummaryPrompt(
-  currentTag: string,
-  previousTag: string,
-  commits: Parameters<typeof formatCommitBlock>[0][]
-): string {
-  return buildPrompt(currentTag, previousTag, commits, "");
-}
-
-function buildFinalPrompt(
-  currentTag: string,
-  previousTag: string,
-  summaries: string[],
-  githubNotes: string
-): string {
-  const header = [
-    `Release tag: ${currentTag}`,
-    previousTag ? `Previous tag: ${previousTag}` : "Previous tag: (none)",
-    `Summary batch count: ${summaries.length}`,
-    "",
-  ].join("\n");
-
-  const blocks = summaries.map(
-    (summary, index) => `Batch ${index + 1} summary:\n${summary}`
-  );
-
-  let prompt = `${header}${blocks.join("\n\n")}`;
-  if (githubNotes) {
-    prompt += `\n\nGitHub auto-generated notes (extra context, do not quote verbatim):\n${githubNotes}`;
-  }
-  return prompt;
-}
-
-async function generateResponseText(
-  client: OpenAIClientLike,
-  model: string,
-  input: string,
-  instructions: string,
-  label: string
-): Promise<string> {
-  const response = await client.responses.create({
-    model,
-    input,
-    instructions,
-  });
-  const text = extractResponseText(response).trim();
-  if (!text) {
-    throw new Error(`Model response did not include text output (${label}).`);
-  }
-  return text;
-}
-
-function isNotFoundError(error: unknown): boolean {
-  return (
-    typeof error === "object" &&
-    error !== null &&
-    "status" in error &&
-    error.status === 404
-  );
-}
-
-async function getExistingRelease(
-  octokit: OctokitLike,
-  actionContext: ActionContext,
-  tag: string
-): Promise<ReleaseData | null> {
-  try {
-    const release = await octokit.rest.repos.getReleaseByTag({
-      owner: actionContext.repo.owner,
-      repo: actionContext.repo.repo,
-      tag,
-    });
-    return release.data;
-  } catch (error) {
-    if (isNotFoundError(error)) {
-      return null;
-    }
-    throw error;
-  }
-}
-
-async function writeRelease(
-  octokit: OctokitLike,
-  actionContext: ActionContext,
-  tag: string,
-  releaseName: string,
-  releaseNotes: string,
-  draft: boolean,
-  prerelease: boolean,
-  behavior: ExistingReleaseBehavior
-): Promise<ReleaseData> {
-  const existingRelease = await getExistingRelease(octokit, actionContext, tag);
-  const request: ReleaseRequest = {
-    owner: actionContext.repo.owner,
-    repo: actionContext.repo.repo,
-    tag_name: tag,
-    name: releaseName,
-    body: releaseNotes,
-    draft,
-    prerelease,
-    target_commitish: actionContext.sha,
-  };
-
-  if (!existingRelease) {
-    return (await octokit.rest.repos.createRelease(request)).data;
-  }
-
-  if (behavior === "fail") {
-    throw new Error(`Release ${tag} already exists.`);
+  if (metadata.model !== options.model || metadata.promptHash !== options.promptHash) {
+    logger.info("The model or prompt changed since the existing notes; regenerating them.");
+    return null;
   }
-  if (behavior === "update_draft" && !existingRelease.draft) {
-    throw new Error(
-      `Release ${tag} already exists and is not a draft. Set existing_release_behavior to update_any to update published releases.`
+  if (
+    !isAncestor(metadata.head, options.headSha) ||
+    (options.previousTag && !isAncestor(options.previousTag, metadata.head))
+  ) {
+    logger.info(
+      `The existing notes end at ${metadata.head.slice(0, 7)}, outside this range; regenerating them.`
     );
+    return null;
   }
-
-  return (
-    await octokit.rest.repos.updateRelease({
-      ...request,
-      release_id: existingRelease.id,
-    })
-  ).data;
+  return { head: metadata.head, notes };
 }
 
 export async function runAction(dependencies: ActionDependencies): Promise<void> {
@@ -382,16 +162,50 @@ export async function runAction(dependencies: ActionDependencies): Promise<void>
   const actionContext = dependencies.context;
   const apiKey = actionCore.getInput("openai_api_key", { required: true });
   const baseUrl = actionCore.getInput("openai_base_url") || undefined;
-  const model = actionCore.getInput("model") || "gpt-5.6-terra";
+  const model = actionCore.getInput("model") || DEFAULT_MODEL;
   const githubToken =
     actionCore.getInput("github_token") || dependencies.env.GITHUB_TOKEN;
   const inputTag = actionCore.getInput("tag");
   const previousTagInput = actionCore.getInput("previous_tag");
+  const baseRefInput = actionCore.getInput("base_ref");
+  const headRefInput = actionCore.getInput("head_ref");
+  const unreleased = getInputBoolean(actionCore, "unreleased", false);
+  const incremental = getInputBoolean(actionCore, "incremental", true);
+  const commentOnPullRequest = getInputBoolean(
+    actionCore,
+    "comment_on_pull_request",
+    true
+  );
+  const tagPrefix = actionCore.getInput("tag_prefix");
+  const tagPattern = parseTagPattern(actionCore.getInput("tag_pattern"));
+  const versionScheme = parseVersionScheme(
+    actionCore.getInput("version_scheme")
+  );
+  const compareStableTo = parseStableComparison(
+    actionCore.getInput("compare_stable_to")
+  );
+  const releaseLine = parseReleaseLine(actionCore.getInput("release_line"));
+  const paths = parsePathFilters(actionCore.getInput("paths"));
   const includeGithubNotes = getInputBoolean(
     actionCore,
     "include_github_generated_notes",
     false
   );
+  const includePullRequests = getInputBoolean(
+    actionCore,
+    "include_pull_requests",
+    true
+  );
+  const structuredOutput = getInputBoolean(
+    actionCore,
+    "structured_output",
+    false
+  );
+  const includeContributors = getInputBoolean(
+    actionCore,
+    "include_contributors",
+    true
+  );
   const redactSecrets = getInputBoolean(actionCore, "redact_secrets", true);
   const maxDiffLines = Number.parseInt(
     actionCore.getInput("max_diff_lines") || "120",
@@ -402,19 +216,57 @@ export async function runAction(dependencies: ActionDependencies): Promise<void>
     10
   );
   const maxStageChars = Number.parseInt(
-    actionCore.getInput("max_stage_chars") || "400000",
+    actionCore.getInput("max_stage_chars") || "0",
+    10
+  );
+  let maxStageTokens = Number.parseInt(
+    actionCore.getInput("max_stage_tokens") || "100000",
+    10
+  );
+  const maxConcurrency = Number.parseInt(
+    actionCore.getInput("max_concurrency") || "4",
+    10
+  );
+  const maxRetries = Number.parseInt(actionCore.getInput("max_retries") || "3", 10);
+  const requestTimeoutSeconds = Number.parseInt(
+    actionCore.getInput("request_timeout_seconds") || "300",
     10
   );
   const sourceExtensions = parseSourceExtensions(
     actionCore.getInput("source_extensions")
   );
+  const conventionalCommits = getInputBoolean(
+    actionCore,
+    "conventional_commits",
+    true
+  );
+  const conventionalSections = parseConventionalSections(
+    actionCore.getInput("conventional_sections")
+  );
+  const unsupportedBullets = parseUnsupportedBulletMode(
+    actionCore.getInput("unsupported_bullets")
+  );
+  const recommendVersion = parseVersionRecommendationMode(
+    actionCore.getInput("recommend_version")
+  );
   const draft = getInputBoolean(actionCore, "draft", true);
-  const prerelease = getInputBoolean(actionCore, "prerelease", false);
+  const prereleaseInput = actionCore.getInput("prerelease").toLowerCase();
   const createRelease = getInputBoolean(actionCore, "create_release", true);
   const existingReleaseBehavior = parseExistingReleaseBehavior(
     actionCore.getInput("existing_release_behavior")
   );
   const releaseNameOverride = actionCore.getInput("release_name");
+  const changelogFile = actionCore.getInput("changelog_file");
+  const changelogPullRequest = getInputBoolean(
+    actionCore,
+    "changelog_pull_request",
+    false
+  );
+  if (changelogPullRequest && !changelogFile) {
+    throw new Error("changelog_pull_request requires changelog_file.");
+  }
+  const finalPromptFile = actionCore.getInput("final_prompt_file");
+  const stagePromptFile = actionCore.getInput("stage_prompt_file");
 
   if (!githubToken) {
     throw new Error(
@@ -427,16 +279,61 @@ export async function runAction(dependencies: ActionDependencies): Promise<void>
   if (Number.isNaN(maxCommits) || maxCommits < 1) {
     throw new Error("max_commits must be a positive integer.");
   }
-  if (Number.isNaN(maxStageChars) || maxStageChars < 1000) {
-    throw new Error("max_stage_chars must be an integer >= 1000.");
+  if (Number.isNaN(maxStageTokens) || maxStageTokens < 250) {
+    throw new Error("max_stage_tokens must be an integer >= 250.");
+  }
+  if (Number.isNaN(maxStageChars) || (maxStageChars !== 0 && maxStageChars < 1000)) {
+    throw new Error("max_stage_chars must be 0 or an integer >= 1000.");
+  }
+  if (maxStageChars) {
+    maxStageTokens = Math.floor(maxStageChars / 4);
+    actionCore.warning(
+      `max_stage_chars is deprecated; using ${maxStageTokens} tokens. Set max_stage_tokens instead.`
+    );
+  }
+  if (Number.isNaN(maxConcurrency) || maxConcurrency < 1) {
+    throw new Error("max_concurrency must be a positive integer.");
   }
+  if (Number.isNaN(maxRetries) || maxRetries < 0) {
+    throw new Error("max_retries must be a non-negative integer.");
+  }
+  if (Number.isNaN(requestTimeoutSeconds) || requestTimeoutSeconds < 1) {
+    throw new Error("request_timeout_seconds must be a positive integer.");
+  }
+  const modelSettings: ModelCallSettings = {
+    model,
+    fallbackModels: parseModelList(actionCore.getInput("fallback_models")),
+    retry: { maxRetries, timeoutMs: requestTimeoutSeconds * 1000 },
+    onModelFailure: parseModelFailureMode(actionCore.getInput("on_model_failure")),
+  };
+  const templates = {
+    final: loadPromptTemplate(finalPromptFile, "final_prompt_file"),
+    stage: loadPromptTemplate(stagePromptFile, "stage_prompt_file"),
+  };
 
-  const tag = inputTag || getTagFromRef(actionContext.ref) || "";
+  const pullRequest = ["pull_request", "pull_request_target"].includes(
+    actionContext.eventName ?? ""
+  )
+    ? actionContext.payload?.pull_request
+    : undefined;
+  const rangeMode =
+    !unreleased &&
+    Boolean(baseRefInput || headRefInput || (pullRequest && !inputTag));
+  const tag = unreleased
+    ? "Unreleased"
+    : rangeMode
+      ? headRefInput || pullRequest?.head?.ref || "HEAD"
+      : inputTag || getTagFromRef(actionContext.ref) || "";
   if (!tag) {
     throw new Error(
-      "No tag detected. Provide the 'tag' input or run on a tag push."
+      "No tag detected. Provide the 'tag' input, run on a tag push, or set base_ref to preview a ref range."
     );
   }
+  const prerelease =
+    !unreleased &&
+    (!prereleaseInput || prereleaseInput === "auto"
+      ? isPrereleaseTag(tag, versionScheme)
+      : getInputBoolean(actionCore, "prerelease", false));
 
   if (isShallowRepository()) {
     actionCore.warning(
@@ -448,23 +345,71 @@ export async function runAction(dependencies: ActionDependencies): Promise<void>
     info: actionCore.info,
     warning: actionCore.warning,
   };
-  const previousTag = resolvePreviousTag(tag, previousTagInput, logger);
-  const commitShas = getCommitShas(previousTag, tag, maxCommits, logger);
+  let headRef = tag;
+  let previousTag: string;
+  if (unreleased) {
+    headRef = resolveCommitRef(headRefInput || "HEAD", "head_ref");
+    previousTag = resolveLatestTag(headRef, logger, {
+      tagPrefix,
+      tagPattern,
+      versionScheme,
+      compareStableTo,
+      releaseLine,
+    });
+    logger.info(
+      `Drafting unreleased notes for ${previousTag || "(root)"}..${headRef}.`
+    );
+  } else if (rangeMode) {
+    const baseRef = baseRefInput || pullRequest?.base?.sha;
+    if (!baseRef) {
+      throw new Error("head_ref requires base_ref outside pull_request events.");
+    }
+    resolveCommitRef(baseRef, "base_ref");
+    headRef = resolveCommitRef(
+      headRefInput || pullRequest?.head?.sha || "HEAD",
+      "head_ref"
+    );
+    previousTag = baseRef;
+    logger.info(`Previewing notes for ${baseRef}..${tag}.`);
+  } else {
+    previousTag = resolvePreviousTag(tag, previousTagInput, logger, {
+      tagPrefix,
+      tagPattern,
+      versionScheme,
+      compareStableTo,
+      releaseLine,
+    });
+  }
+  const commitShas = getCommitShas(
+    previousTag,
+    headRef,
+    maxCommits,
+    logger,
+    paths
+  );
   if (!commitShas.length) {
     actionCore.warning("No commits found between tags; nothing to summarize.");
   }
 
-  const commits = buildCommitData(
+  let commits = buildCommitData(
     commitShas,
     maxDiffLines,
     logger,
-    sourceExtensions
+    sourceExtensions,
+    paths
   );
 
   const octokit = dependencies.getOctokit(githubToken);
 
+  if (includePullRequests && commits.length) {
+    commits = dedupeCommitsByPullRequest(
+      await attachPullRequests(octokit, actionContext, commits, logger),
+      maxDiffLines
+    );
+  }
+
   let githubNotes = "";
-  if (includeGithubNotes) {
+  if (includeGithubNotes && !rangeMode && !unreleased) {
     try {
       const notes = await octokit.rest.repos.generateReleaseNotes({
         owner: actionContext.repo.owner,
@@ -496,109 +441,261 @@ export async function runAction(dependencies: ActionDependencies): Promise<void>
     }
   }
 
+  const promptHash = releasePromptHash({
+    templates,
+    sections: conventionalCommits ? conventionalSections : undefined,
+    structured: structuredOutput,
+    unsupportedBullets,
+  });
+  const headSha =
+    createRelease && !rangeMode ? resolveCommitRef(headRef, "head_ref") : "";
+  let generationCommits = promptCommits;
+  let previousNotes: GenerationRequest["previousNotes"];
+  // Looked up once here and reused by writeRelease.
+  let existingRelease: ReleaseData | null | undefined;
+  let incrementalBase: ReturnType<typeof incrementalBaseFor> = null;
+  // Structured output regenerates in full so release_notes_json always holds the whole release.
+  if (incremental && !structuredOutput && headSha && commits.length) {
+    existingRelease = unreleased
+      ? undefined
+      : await getExistingRelease(octokit, actionContext, tag);
+    incrementalBase = incrementalBaseFor(
+      existingRelease ??
+        (await findUnreleasedDraft(octokit, actionContext, previousTag)),
+      logger,
+      { previousTag, headSha, model, promptHash }
+    );
+  }
+  if (incrementalBase) {
+    const newShas = new Set(
+      getCommitShas(incrementalBase.head, headSha, maxCommits, logger, paths)
+    );
+    generationCommits = promptCommits.filter((commit) => newShas.has(commit.sha));
+    previousNotes = {
+      notes: incrementalBase.notes,
+      commits: promptCommits.filter((commit) => !newShas.has(commit.sha)),
+    };
+    logger.info(
+      `Updating the existing notes through ${incrementalBase.head.slice(0, 7)} ` +
+        `with ${generationCommits.length} new commits.`
+    );
+  }
+
+  const repositoryUrl = `${
+    dependencies.env.GITHUB_SERVER_URL || "https://github.com"
+  }/${actionContext.repo.owner}/${actionContext.repo.repo}`;
   const client = dependencies.createOpenAIClient({
     apiKey,
     baseURL: baseUrl,
   });
 
-  const finalInstructions = loadPrompt("final-release.md");
-  const stageInstructions = loadPrompt("stage-summary.md");
-
-  const fullPrompt = buildPrompt(
-    tag,
-    previousTag,
-    promptCommits,
-    promptGithubNotes
-  );
-  let releaseNotes = "";
-  let promptCharCount = fullPrompt.length;
-  let usedBatching = false;
-
-  if (fullPrompt.length <= maxStageChars) {
-    releaseNotes = await generateResponseText(
-      client,
-      model,
-      fullPrompt,
-      finalInstructions,
-      "final"
-    );
-  } else {
-    usedBatching = true;
-    const chunkBudget = Math.max(1000, maxStageChars - 2000);
-    const chunks = chunkCommits(promptCommits, chunkBudget, logger);
-    const summaries: string[] = [];
-
-    actionCore.info(
-      `Full prompt size ${fullPrompt.length} exceeds ${maxStageChars}. ` +
-        `Summarizing in ${chunks.length} batches.`
-    );
-
-    for (let index = 0; index < chunks.length; index += 1) {
-      const chunkPrompt = buildSummaryPrompt(tag, previousTag, chunks[index]);
-      const summary = await generateResponseText(
+  if (recommendVersion !== "off") {
+    let recommendation = recommendVersionBump(previousTag, promptCommits);
+    if (recommendVersion === "model") {
+      recommendation = await judgeVersionBump(
         client,
-        model,
-        chunkPrompt,
-        stageInstructions,
-        `stage-${index + 1}`
+        modelSettings,
+        previousTag,
+        promptCommits,
+        recommendation,
+        logger
       );
-      summaries.push(summary);
     }
+    actionCore.info(
+      `Recommended ${recommendation.bump} bump${
+        recommendation.version ? ` to ${recommendation.version}` : ""
+      }.`
+    );
+    actionCore.setOutput("recommended_bump", recommendation.bump);
+    actionCore.setOutput("recommended_version", recommendation.version);
+    actionCore.setOutput(
+      "bump_justification",
+      formatVersionRecommendation(recommendation)
+    );
+  }
 
-    const finalPrompt = buildFinalPrompt(
+  const generated = await generateReleaseNotes(
+    client,
+    {
+      ...modelSettings,
       tag,
       previousTag,
-      summaries,
-      promptGithubNotes
-    );
-    promptCharCount = finalPrompt.length;
-    releaseNotes = await generateResponseText(
-      client,
-      model,
-      finalPrompt,
-      finalInstructions,
-      "final"
+      commits: generationCommits,
+      githubNotes: promptGithubNotes,
+      maxStageTokens,
+      maxConcurrency,
+      summaryCacheDir: actionCore.getInput("summary_cache_dir"),
+      sections: conventionalCommits ? conventionalSections : undefined,
+      templates,
+      templateVariables: {
+        tag,
+        previous_tag: previousTag || "(none)",
+        repo: `${actionContext.repo.owner}/${actionContext.repo.repo}`,
+        commit_count: String(commitShas.length),
+        date: new Date().toISOString().slice(0, 10),
+      },
+      structured: structuredOutput,
+      sourceShas: commitShas,
+      unsupportedBullets,
+      repositoryUrl,
+      previousNotes,
+    },
+    logger
+  );
+  const { unsupportedBulletCount, usedTemplateFallback } = generated;
+  actionCore.setOutput("used_template_fallback", String(usedTemplateFallback));
+  let releaseNotes = generated.releaseNotes;
+  const releaseNotesJson = generated.structuredNotes
+    ? JSON.stringify(generated.structuredNotes)
+    : "";
+
+  if (includeContributors) {
+    const contributors = await resolveContributorLogins(
+      octokit,
+      actionContext,
+      getContributors(previousTag, headRef, paths),
+      logger
     );
+    const contributorsSection = formatContributorsSection(contributors);
+    if (contributorsSection) {
+      releaseNotes = `${releaseNotes}\n\n${contributorsSection}`;
+    }
+  }
+
+  if (changelogFile && rangeMode) {
+    actionCore.info("changelog_file is not updated for ref range previews.");
+  } else if (changelogFile) {
+    const label = unreleased
+      ? UNRELEASED_CHANGELOG_LABEL
+      : changelogVersionLabel(tag, versionScheme);
+    const entry = {
+      label,
+      date: new Date().toISOString().slice(0, 10),
+      compareUrl: changelogCompareUrl(
+        dependencies.env.GITHUB_SERVER_URL || "https://github.com",
+        `${actionContext.repo.owner}/${actionContext.repo.repo}`,
+        previousTag,
+        unreleased ? "HEAD" : tag
+      ),
+      notes: releaseNotes,
+    };
+    writeChangelogFile(changelogFile, entry);
+    actionCore.info(`Updated the ${label} section of ${changelogFile}.`);
+
+    if (changelogPullRequest) {
+      const changelogPr = await writeChangelogPullRequest(
+        octokit,
+        actionContext,
+        {
+          path: changelogFile,
+          tag,
+          entry,
+          baseBranch: actionCore.getInput("changelog_base_branch"),
+        },
+        logger
+      );
+      if (changelogPr) {
+        actionCore.info(
+          `Opened or updated changelog pull request #${changelogPr.number} (${changelogPr.html_url}).`
+        );
+      }
+      actionCore.setOutput(
+        "changelog_pull_request_url",
+        changelogPr?.html_url ?? ""
+      );
+    }
   }
 
   const releaseName = releaseNameOverride || tag;
+  const breakingChangeCount = promptCommits.reduce(
+    (count, commit) => count + commit.breakingChanges.length,
+    0
+  );
 
-  if (!createRelease) {
+  if (!createRelease || rangeMode) {
+    let commentUrl = "";
+    if (pullRequest && commentOnPullRequest) {
+      try {
+        const comment = await writePullRequestPreview(
+          octokit,
+          actionContext,
+          pullRequest.number,
+          releaseNotes
+        );
+        commentUrl = comment.html_url;
+        actionCore.info(
+          `Updated the release notes preview on pull request #${pullRequest.number}.`
+        );
+      } catch (error) {
+        actionCore.warning(
+          `Failed to comment on pull request #${pullRequest.number}; grant pull-requests: write to post previews: ${error}`
+        );
+      }
+    }
     actionCore.setOutput("release_notes", releaseNotes);
+    actionCore.setOutput("release_notes_json", releaseNotesJson);
     actionCore.setOutput("release_url", "");
+    actionCore.setOutput("comment_url", commentUrl);
+    actionCore.setOutput("breaking_change_count", String(breakingChangeCount));
+    actionCore.setOutput(
+      "unsupported_bullet_count",
+      String(unsupportedBulletCount)
+    );
     setDiagnosticOutputs(
       actionCore,
       previousTag,
       commitShas.length,
-      promptCharCount,
-      usedBatching,
-      redactionCount
+      redactionCount,
+      generated
     );
     actionCore.info(
-      "Release creation skipped because create_release is false."
+      rangeMode
+        ? "Release creation skipped because a ref range was previewed."
+        : "Release creation skipped because create_release is false."
     );
     return;
   }
 
-  const release = await writeRelease(
-    octokit,
-    actionContext,
-    tag,
-    releaseName,
-    releaseNotes,
-    draft,
-    prerelease,
-    existingReleaseBehavior
-  );
+  // Template notes carry no metadata so the next run regenerates them in full.
+  const metadata = usedTemplateFallback
+    ? undefined
+    : { head: headSha, model: generated.finalModel, promptHash };
+  const release = unreleased
+    ? await writeUnreleasedDraft(
+        octokit,
+        actionContext,
+        releaseName,
+        releaseNotes,
+        previousTag,
+        metadata,
+        logger
+      )
+    : await writeRelease(
+        octokit,
+        actionContext,
+        tag,
+        releaseName,
+        releaseNotes,
+        draft,
+        prerelease,
+        existingReleaseBehavior,
+        previousTag,
+        metadata,
+        existingRelease,
+        logger
+      );
   actionCore.setOutput("release_notes", releaseNotes);
+  actionCore.setOutput("release_notes_json", releaseNotesJson);
   actionCore.setOutput("release_url", release.html_url ?? "");
+  actionCore.setOutput("comment_url", "");
+  actionCore.setOutput("breaking_change_count", String(breakingChangeCount));
+  actionCore.setOutput("unsupported_bullet_count", String(unsupportedBulletCount));
   setDiagnosticOutputs(
     actionCore,
     previousTag,
     commitShas.length,
-    promptCharCount,
-    usedBatching,
-    redactionCount
+    redactionCount,
+    generated
   );
 
   actionCore.info(`Created or updated release ${releaseName} (${release.html_url ?? ""}).`);
@@ -611,7 +708,7 @@ async function run(): Promise<void> {
       context,
       env: process.env,
       getOctokit: (token) => getOctokit(token) as unknown as OctokitLike,
-      createOpenAIClient: (options) => new OpenAI(options),
+      createOpenAIClient: (options) => new OpenAI({ ...options, maxRetries: 0 }),
     });
   } catch (error) {
     const message = error instanceof Error ? error.message : String(error);
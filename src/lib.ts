@@ -1,7 +1,9 @@
 import { execFileSync } from "node:child_process";
+import { existsSync, readFileSync, writeFileSync } from "node:fs";
+import { resolve } from "node:path";
 
 const MAX_LINE_LENGTH = 300;
-const SEMANTIC_RELEASE_TAG = /^v\d+\.\d+\.\d+(?:[+-][0-9A-Za-z.-]+)?$/;
+const DEFAULT_TAG_PREFIX = "v";
 export const REDACTION_PLACEHOLDER = "[REDACTED POSSIBLE SECRET]";
 
 export const DEFAULT_SOURCE_EXTENSIONS = new Set([
@@ -43,10 +45,126 @@ export const DEFAULT_SOURCE_EXTENSIONS = new Set([
   ".exs",
 ]);
 
+export const OTHER_CHANGES_SECTION = "Other Changes";
+
+export const DEFAULT_CONVENTIONAL_SECTIONS = new Map([
+  ["feat", "Features"],
+  ["fix", "Bug Fixes"],
+  ["perf", "Performance"],
+  ["revert", "Reverts"],
+  ["docs", "Documentation"],
+  ["refactor", "Maintenance"],
+  ["build", "Maintenance"],
+  ["ci", "Maintenance"],
+  ["chore", "Maintenance"],
+  ["test", "Maintenance"],
+  ["style", "Maintenance"],
+]);
+
+export function parseSourceExtensions(input: string): Set<string> {
+  if (!input.trim()) {
+    return new Set(DEFAULT_SOURCE_EXTENSIONS);
+  }
+  const values = input
+    .split(/[\s,]+/)
+    .map((value) => value.trim())
+    .filter(Boolean)
+    .map((value) =>
+      value.startsWith(".") ? value.toLowerCase() : `.${value.toLowerCase()}`
+    );
+  return new Set(values);
+}
+
+export function parsePathFilters(input: string): string[] {
+  return input
+    .split(/[\n,]+/)
+    .map((value) => value.trim().replace(/^\.\//, "").replace(/\/+$/, ""))
+    .filter(Boolean);
+}
+
+function pathspec(paths: string[]): string[] {
+  return paths.length ? ["--", ...paths] : [];
+}
+
+/** Conventional types mapped to Keep a Changelog section names. */
+export const KEEP_A_CHANGELOG_SECTIONS = new Map([
+  ["feat", "Added"],
+  ["fix", "Fixed"],
+  ["security", "Security"],
+  ["deprecate", "Deprecated"],
+  ["perf", "Changed"],
+  ["revert", "Changed"],
+  ["refactor", "Changed"],
+  ["docs", "Changed"],
+  ["build", "Changed"],
+  ["chore", "Changed"],
+]);
+
+export function parseConventionalSections(input: string): Map<string, string> {
+  if (!input.trim()) {
+    return new Map(DEFAULT_CONVENTIONAL_SECTIONS);
+  }
+  if (input.trim().toLowerCase() === "keep-a-changelog") {
+    return new Map(KEEP_A_CHANGELOG_SECTIONS);
+  }
+  const sections = new Map<string, string>();
+  for (const entry of input.split(/[\n,]+/)) {
+    if (!entry.trim()) {
+      continue;
+    }
+    const match = /^\s*([A-Za-z0-9_-]+)\s*[=:]\s*(.+?)\s*$/.exec(entry);
+    if (!match) {
+      throw new Error(
+        `Invalid conventional section mapping "${entry.trim()}". Use type=Section Title.`
+      );
+    }
+    sections.set(match[1].toLowerCase(), match[2]);
+  }
+  return sections;
+}
+
+export type ConventionalCommit = {
+  type: string;
+  scope: string | null;
+  breaking: boolean;
+  description: string;
+  breakingNotes: string[];
+};
+
+export type BreakingChangeReason =
+  | "conventional-marker"
+  | "breaking-footer"
+  | "removed-export"
+  | "deleted-file";
+
+export type BreakingChange = {
+  reason: BreakingChangeReason;
+  summary: string;
+  evidence: string[];
+};
+
+export type PullRequestInfo = {
+  number: number;
+  title: string;
+  body: string;
+  labels: string[];
+  author: string | null;
+};
+
 export type CommitData = {
   sha: string;
   message: string;
   diffLines: string[];
+  /** Changed paths, used to group template notes by top-level directory. */
+  files: string[];
+  conventional: ConventionalCommit | null;
+  breakingChanges: BreakingChange[];
+  pullRequest: PullRequestInfo | null;
+};
+
+export type CommitSection = {
+  title: string;
+  commits: CommitData[];
 };
 
 export type RedactionResult = {
@@ -63,6 +181,7 @@ type FileStat = {
   path: string;
   isBinary: boolean;
   isSource: boolean;
+  isDeleted: boolean;
 };
 
 export type Logger = {
@@ -183,11 +302,174 @@ export function listTags(): string[] {
   return output.split("\n").map((tag) => tag.trim()).filter(Boolean);
 }
 
-function isSemanticReleaseTag(tag: string): boolean {
-  return SEMANTIC_RELEASE_TAG.test(tag);
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+export type VersionScheme = "semver" | "calver" | "custom";
+
+export type ParsedVersion = {
+  numbers: number[];
+  prerelease: string[] | null;
+};
+
+const SEMVER_SUFFIX =
+  /(\d+)\.(\d+)\.(\d+)(?:-([0-9A-Za-z.-]+?))?(?:\+[0-9A-Za-z.-]+)?$/;
+const CALVER_SUFFIX =
+  /(\d{4}|\d{2})\.(\d{1,2})((?:\.\d+)*)(?:-([0-9A-Za-z.-]+?))?$/;
+const RELEASE_VERSION: Record<Exclude<VersionScheme, "custom">, RegExp> = {
+  semver: /^\d+\.\d+\.\d+(?:[+-][0-9A-Za-z.-]+)?$/,
+  calver: /^(?:\d{4}|\d{2})\.\d{1,2}(?:\.\d+)*(?:-[0-9A-Za-z.-]+)?$/,
+};
+const MAX_LOGGED_TAGS = 10;
+
+export function parseVersionScheme(input: string): VersionScheme {
+  const value = input.trim().toLowerCase() || "semver";
+  if (["semver", "calver", "custom"].includes(value)) {
+    return value as VersionScheme;
+  }
+  throw new Error("version_scheme must be one of: semver, calver, custom.");
+}
+
+/**
+ * Parses a `tag_pattern` input. Patterns wrapped in slashes or starting with
+ * `^` are regular expressions; anything else is a glob where `*` matches any
+ * run of characters and `?` matches one character.
+ */
+export function parseTagPattern(input: string): RegExp | undefined {
+  const pattern = input.trim();
+  if (!pattern) {
+    return undefined;
+  }
+  const isRegExp =
+    (pattern.length > 2 && pattern.startsWith("/") && pattern.endsWith("/")) ||
+    pattern.startsWith("^");
+  if (!isRegExp) {
+    return new RegExp(
+      `^${pattern
+        .split("")
+        .map((char) =>
+          char === "*" ? ".*" : char === "?" ? "." : escapeRegExp(char)
+        )
+        .join("")}$`
+    );
+  }
+  const source =
+    pattern.startsWith("/") && pattern.endsWith("/")
+      ? pattern.slice(1, -1)
+      : pattern;
+  try {
+    return new RegExp(source);
+  } catch (error) {
+    throw new Error(
+      `tag_pattern ${pattern} is not a valid regular expression: ${formatErrorMessage(error)}`
+    );
+  }
+}
+
+/**
+ * Extracts the trailing version from a tag according to the version scheme,
+ * so prefixes such as `v`, `pkg-v`, or `release-` are ignored.
+ */
+export function parseVersion(
+  tag: string,
+  scheme: VersionScheme
+): ParsedVersion | null {
+  if (scheme === "custom") {
+    return null;
+  }
+  if (scheme === "semver") {
+    const match = SEMVER_SUFFIX.exec(tag);
+    return match
+      ? {
+          numbers: match.slice(1, 4).map(Number),
+          prerelease: match[4] ? match[4].split(".") : null,
+        }
+      : null;
+  }
+  const match = CALVER_SUFFIX.exec(tag);
+  return match
+    ? {
+        numbers: [
+          Number(match[1]),
+          Number(match[2]),
+          ...match[3].split(".").filter(Boolean).map(Number),
+        ],
+        prerelease: match[4] ? match[4].split(".") : null,
+      }
+    : null;
+}
+
+function comparePrereleaseIdentifiers(left: string[], right: string[]): number {
+  for (let index = 0; index < Math.max(left.length, right.length); index += 1) {
+    if (left[index] === undefined || right[index] === undefined) {
+      return left[index] === undefined ? -1 : 1;
+    }
+    const leftNumeric = /^\d+$/.test(left[index]);
+    const rightNumeric = /^\d+$/.test(right[index]);
+    if (leftNumeric && rightNumeric) {
+      const difference = Number(left[index]) - Number(right[index]);
+      if (difference !== 0) {
+        return difference;
+      }
+    } else if (leftNumeric !== rightNumeric) {
+      return leftNumeric ? -1 : 1;
+    } else if (left[index] !== right[index]) {
+      return left[index] < right[index] ? -1 : 1;
+    }
+  }
+  return 0;
+}
+
+/**
+ * Orders versions by their numeric components, then by semver prerelease
+ * precedence (a release sorts after its prereleases).
+ */
+export function compareVersions(left: ParsedVersion, right: ParsedVersion): number {
+  for (
+    let index = 0;
+    index < Math.max(left.numbers.length, right.numbers.length);
+    index += 1
+  ) {
+    const difference = (left.numbers[index] ?? 0) - (right.numbers[index] ?? 0);
+    if (difference !== 0) {
+      return difference;
+    }
+  }
+  if (!left.prerelease || !right.prerelease) {
+    return left.prerelease ? -1 : right.prerelease ? 1 : 0;
+  }
+  return comparePrereleaseIdentifiers(left.prerelease, right.prerelease);
+}
+
+export function formatVersion(version: ParsedVersion): string {
+  const core = version.numbers.join(".");
+  return version.prerelease ? `${core}-${version.prerelease.join(".")}` : core;
+}
+
+export function isReleaseTag(
+  tag: string,
+  options: PreviousTagOptions = {}
+): boolean {
+  const scheme = options.versionScheme ?? "semver";
+  if (options.tagPattern) {
+    return (
+      options.tagPattern.test(tag) &&
+      (scheme === "custom" || parseVersion(tag, scheme) !== null)
+    );
+  }
+  if (scheme === "custom") {
+    return false;
+  }
+  const tagPrefix =
+    options.tagPrefix || (scheme === "semver" ? DEFAULT_TAG_PREFIX : "");
+  return (
+    tag.startsWith(tagPrefix) &&
+    RELEASE_VERSION[scheme].test(tag.slice(tagPrefix.length))
+  );
 }
 
-function isAncestor(ancestor: string, descendant: string): boolean {
+export function isAncestor(ancestor: string, descendant: string): boolean {
   try {
     execFileSync("git", ["merge-base", "--is-ancestor", ancestor, descendant], {
       stdio: "ignore",
@@ -198,11 +480,197 @@ function isAncestor(ancestor: string, descendant: string): boolean {
   }
 }
 
+export type StableComparison = "previous_stable" | "nearest";
+
+export function parseStableComparison(input: string): StableComparison {
+  const value = input.trim().toLowerCase() || "previous_stable";
+  if (["previous_stable", "nearest"].includes(value)) {
+    return value as StableComparison;
+  }
+  throw new Error("compare_stable_to must be one of: previous_stable, nearest.");
+}
+
+export function isPrereleaseTag(tag: string, scheme: VersionScheme = "semver"): boolean {
+  return Boolean(parseVersion(tag, scheme)?.prerelease);
+}
+
+export type VersionBump = "major" | "minor" | "patch";
+export type VersionRecommendationMode = "off" | "commits" | "model";
+
+export type VersionRecommendation = {
+  bump: VersionBump;
+  /** Next tag after the previous tag, or empty when it has no semver version. */
+  version: string;
+  /** One line per commit (or model judgment) that drove the bump. */
+  reasons: string[];
+};
+
+const VERSION_BUMPS: VersionBump[] = ["patch", "minor", "major"];
+
+export function parseVersionRecommendationMode(
+  input: string
+): VersionRecommendationMode {
+  const value = input.trim().toLowerCase() || "off";
+  if (["off", "commits", "model"].includes(value)) {
+    return value as VersionRecommendationMode;
+  }
+  throw new Error("recommend_version must be one of: off, commits, model.");
+}
+
+export function compareVersionBumps(left: VersionBump, right: VersionBump): number {
+  return VERSION_BUMPS.indexOf(left) - VERSION_BUMPS.indexOf(right);
+}
+
+/**
+ * Applies a bump to a semver tag and keeps its prefix. A prerelease is first
+ * promoted to its own release when that release already carries the bump, so
+ * `v2.0.0-rc.1` plus a major bump recommends `v2.0.0`.
+ */
+export function bumpVersionTag(tag: string, bump: VersionBump): string {
+  const match = SEMVER_SUFFIX.exec(tag);
+  if (!match) {
+    return "";
+  }
+  let [major, minor, patch] = match.slice(1, 4).map(Number);
+  const prerelease = Boolean(match[4]);
+  if (bump === "major" && !(prerelease && minor === 0 && patch === 0)) {
+    [major, minor, patch] = [major + 1, 0, 0];
+  } else if (bump === "minor" && !(prerelease && patch === 0)) {
+    [minor, patch] = [minor + 1, 0];
+  } else if (bump === "patch" && !prerelease) {
+    patch += 1;
+  }
+  return `${tag.slice(0, match.index)}${major}.${minor}.${patch}`;
+}
+
+function describeCommit(commit: CommitData): string {
+  return `${commit.sha.slice(0, 7)} ${commit.message.split("\n")[0].trim()}`;
+}
+
+/**
+ * Recommends the next semantic version from commit evidence alone: detected
+ * breaking changes mean major (minor while the previous tag is 0.x),
+ * Conventional `feat` commits mean minor, and anything else means patch.
+ */
+export function recommendVersionBump(
+  previousTag: string,
+  commits: CommitData[]
+): VersionRecommendation {
+  const breaking = commits.filter((commit) => commit.breakingChanges.length);
+  const features = commits.filter(
+    (commit) => commit.conventional?.type.toLowerCase() === "feat"
+  );
+  const preStable = SEMVER_SUFFIX.exec(previousTag)?.[1] === "0";
+
+  let bump: VersionBump;
+  let reasons: string[];
+  if (breaking.length) {
+    bump = preStable ? "minor" : "major";
+    reasons = breaking.map(
+      (commit) =>
+        `${describeCommit(commit)} (breaking: ${commit.breakingChanges
+          .map((change) => change.summary)
+          .join("; ")})`
+    );
+  } else if (features.length) {
+    bump = "minor";
+    reasons = features.map((commit) => `${describeCommit(commit)} (feature)`);
+  } else {
+    bump = "patch";
+    reasons = commits.map((commit) => `${describeCommit(commit)} (fix or other change)`);
+  }
+  return { bump, version: bumpVersionTag(previousTag, bump), reasons };
+}
+
+export function buildVersionBumpPrompt(
+  previousTag: string,
+  commits: CommitData[],
+  recommendation: VersionRecommendation
+): string {
+  const lines = commits.map((commit) => {
+    const pullRequest = commit.pullRequest
+      ? ` (#${commit.pullRequest.number} ${commit.pullRequest.title})`
+      : "";
+    const breaking = commit.breakingChanges.length
+      ? ` [breaking: ${commit.breakingChanges.map((change) => change.summary).join("; ")}]`
+      : "";
+    return `- ${describeCommit(commit)}${pullRequest}${breaking}`;
+  });
+  return [
+    previousTag ? `Previous tag: ${previousTag}` : "Previous tag: (none)",
+    `Commit-based recommendation: ${recommendation.bump}`,
+    "",
+    "Commits:",
+    ...lines,
+  ].join("\n");
+}
+
+export function formatVersionRecommendation(
+  recommendation: VersionRecommendation
+): string {
+  return recommendation.reasons.map((reason) => `- ${reason}`).join("\n");
+}
+
+export type ReleaseLine = "major" | "minor" | "none";
+
+export function parseReleaseLine(input: string): ReleaseLine {
+  const value = input.trim().toLowerCase() || "major";
+  if (["major", "minor", "none"].includes(value)) {
+    return value as ReleaseLine;
+  }
+  throw new Error("release_line must be one of: major, minor, none.");
+}
+
+export type PreviousTagOptions = {
+  /**
+   * Prefix in front of the version, such as `@scope/pkg@` or `pkg-v`. Only
+   * tags with this prefix are previous-tag candidates.
+   */
+  tagPrefix?: string;
+  /** Replaces the prefix-based match when set (see parseTagPattern). */
+  tagPattern?: RegExp;
+  versionScheme?: VersionScheme;
+  /**
+   * `previous_stable` (the default) skips prerelease candidates when the
+   * current tag is a stable release; prerelease tags always use the nearest
+   * candidate, which is usually the prior prerelease.
+   */
+  compareStableTo?: StableComparison;
+  /**
+   * Prefer the highest ancestor tag sharing the current tag's major (or
+   * major.minor) version before falling back to the nearest ancestor.
+   * Defaults to `major`.
+   */
+  releaseLine?: ReleaseLine;
+};
+
+function describeTagMatcher(options: PreviousTagOptions): string {
+  const scheme = options.versionScheme ?? "semver";
+  if (options.tagPattern) {
+    return `tag_pattern ${options.tagPattern.source} (${scheme})`;
+  }
+  const tagPrefix =
+    options.tagPrefix || (scheme === "semver" ? DEFAULT_TAG_PREFIX : "");
+  return tagPrefix ? `tag_prefix ${tagPrefix} (${scheme})` : `${scheme} tags`;
+}
+
+function formatTagList(tags: string[]): string {
+  const shown = tags.slice(0, MAX_LOGGED_TAGS).join(", ");
+  return tags.length > MAX_LOGGED_TAGS
+    ? `${shown}, and ${tags.length - MAX_LOGGED_TAGS} more`
+    : shown;
+}
+
 export function resolvePreviousTag(
   currentTag: string,
   override: string,
-  logger: Logger = noopLogger
+  logger: Logger = noopLogger,
+  options: PreviousTagOptions = {}
 ): string {
+  const scheme = options.versionScheme ?? "semver";
+  if (scheme === "custom" && !options.tagPattern) {
+    throw new Error("version_scheme custom requires tag_pattern.");
+  }
   if (override) {
     const overrideExists = runGit(
       ["rev-parse", "-q", "--verify", `refs/tags/${override}`],
@@ -226,6 +694,14 @@ export function resolvePreviousTag(
     );
   }
 
+  const matcher = describeTagMatcher(options);
+  if (
+    (options.tagPrefix || options.tagPattern || scheme !== "semver") &&
+    !isReleaseTag(currentTag, options)
+  ) {
+    throw new Error(`Tag ${currentTag} does not match ${matcher}.`);
+  }
+
   const tags = listTags();
   if (!tags.length) {
     throw new Error(
@@ -233,34 +709,161 @@ export function resolvePreviousTag(
     );
   }
 
-  const candidates = tags.filter(
-    (tag) =>
-      tag !== currentTag && isSemanticReleaseTag(tag) && isAncestor(tag, currentTag)
+  return selectPreviousTag(tags, currentTag, currentTag, logger, options);
+}
+
+/**
+ * Resolves the latest release tag reachable from a ref that is not tagged yet,
+ * such as HEAD in unreleased mode: the highest-version matching ancestor, or
+ * the nearest one when the version scheme is custom.
+ */
+export function resolveLatestTag(
+  headRef: string,
+  logger: Logger = noopLogger,
+  options: PreviousTagOptions = {}
+): string {
+  if ((options.versionScheme ?? "semver") === "custom" && !options.tagPattern) {
+    throw new Error("version_scheme custom requires tag_pattern.");
+  }
+  return selectPreviousTag(listTags(), headRef, null, logger, options);
+}
+
+function selectPreviousTag(
+  tags: string[],
+  headRef: string,
+  currentTag: string | null,
+  logger: Logger,
+  options: PreviousTagOptions
+): string {
+  const scheme = options.versionScheme ?? "semver";
+  const matcher = describeTagMatcher(options);
+  const currentVersion = currentTag ? parseVersion(currentTag, scheme) : null;
+  const stableOnly =
+    (options.compareStableTo ?? "previous_stable") === "previous_stable" &&
+    currentVersion !== null &&
+    !currentVersion.prerelease;
+  const rejected = new Map<string, string[]>();
+  const reject = (reason: string, tag: string) =>
+    rejected.set(reason, [...(rejected.get(reason) ?? []), tag]);
+  const candidates: Array<{ tag: string; version: ParsedVersion | null }> = [];
+  for (const tag of tags) {
+    if (tag === currentTag) {
+      continue;
+    }
+    if (!isReleaseTag(tag, options)) {
+      reject(`not matching ${matcher}`, tag);
+      continue;
+    }
+    const version = parseVersion(tag, scheme);
+    if (currentVersion && version && compareVersions(version, currentVersion) >= 0) {
+      reject(`not older than ${formatVersion(currentVersion)}`, tag);
+      continue;
+    }
+    if (stableOnly && version?.prerelease) {
+      reject("prerelease before a stable release (compare_stable_to: previous_stable)", tag);
+      continue;
+    }
+    if (!isAncestor(tag, headRef)) {
+      reject(`not an ancestor of ${headRef}`, tag);
+      continue;
+    }
+    candidates.push({ tag, version });
+  }
+
+  logger.info(
+    [
+      `Previous tag candidates for ${currentTag ?? headRef}: ${
+        candidates.length ? formatTagList(candidates.map(({ tag }) => tag)) : "none"
+      }.`,
+      ...[...rejected].map(
+        ([reason, rejectedTags]) =>
+          ` Rejected ${rejectedTags.length} ${reason}: ${formatTagList(rejectedTags)}.`
+      ),
+    ].join("")
   );
   if (!candidates.length) {
     logger.info("No previous tag found; comparing against the empty tree.");
     return "";
   }
 
+  const versioned = candidates.flatMap(({ tag, version }) =>
+    version ? [{ tag, version }] : []
+  );
+  if (!currentTag && versioned.length) {
+    const [latest] = versioned.sort((left, right) =>
+      compareVersions(right.version, left.version)
+    );
+    logger.info(`Using ${latest.tag}, the highest release tag reachable from ${headRef}.`);
+    return latest.tag;
+  }
+
+  const releaseLine = options.releaseLine ?? "major";
+  if (currentVersion && releaseLine !== "none") {
+    const width = releaseLine === "major" ? 1 : 2;
+    const line = `${currentVersion.numbers.slice(0, width).join(".")}.x`;
+    const sameLine = versioned.filter(({ version }) =>
+      version.numbers
+        .slice(0, width)
+        .every((value, index) => value === currentVersion.numbers[index])
+    );
+    if (sameLine.length) {
+      const [highest] = sameLine.sort((left, right) =>
+        compareVersions(right.version, left.version)
+      );
+      logger.info(
+        `Using ${highest.tag}, the highest ancestor tag on release line ${line}.`
+      );
+      return highest.tag;
+    }
+    logger.info(
+      `No ancestor tag on release line ${line}; using the nearest ancestor tag.`
+    );
+  }
+
   return candidates
-    .map((tag) => ({
-      tag,
+    .map((candidate) => ({
+      ...candidate,
       distance: Number.parseInt(
-        runGit(["rev-list", "--count", `${tag}..${currentTag}`]),
+        runGit(["rev-list", "--count", `${candidate.tag}..${headRef}`]),
         10
       ),
     }))
-    .sort((left, right) => left.distance - right.distance)[0].tag;
+    .sort(
+      (left, right) =>
+        left.distance - right.distance ||
+        (left.version && right.version
+          ? compareVersions(right.version, left.version)
+          : 0)
+    )[0].tag;
+}
+
+export function resolveCommitRef(ref: string, name: string): string {
+  const sha = runGit(["rev-parse", "-q", "--verify", `${ref}^{commit}`], {
+    allowFailure: true,
+  });
+  if (!sha) {
+    throw new Error(
+      `${name} ${ref} not found. Ensure it is fetched (actions/checkout fetch-depth: 0).`
+    );
+  }
+  return sha;
 }
 
 export function getCommitShas(
   previousTag: string,
   currentTag: string,
   maxCommits: number,
-  logger: Logger = noopLogger
+  logger: Logger = noopLogger,
+  paths: string[] = []
 ): string[] {
   const range = previousTag ? `${previousTag}..${currentTag}` : currentTag;
-  const output = runGit(["log", "--reverse", "--pretty=format:%H", range]);
+  const output = runGit([
+    "log",
+    "--reverse",
+    "--pretty=format:%H",
+    range,
+    ...pathspec(paths),
+  ]);
   if (!output) {
     return [];
   }
@@ -274,6 +877,138 @@ export function getCommitShas(
   return commits;
 }
 
+export type Contributor = {
+  name: string;
+  email: string;
+  login: string | null;
+  firstSha: string;
+  firstTime: boolean;
+};
+
+const NOREPLY_EMAIL = /^(?:\d+\+)?([A-Za-z0-9-]+(?:\[bot\])?)@users\.noreply\.github\.com$/i;
+const CONTRIBUTOR_FORMAT =
+  "--pretty=format:%H%x00%an%x00%ae%x00%(trailers:key=Co-authored-by,valueonly,separator=%x01)%x1e";
+
+type ContributorRecord = {
+  sha: string;
+  people: Array<{ name: string; email: string; isAuthor: boolean }>;
+};
+
+function parseContributorLog(output: string): ContributorRecord[] {
+  return output
+    .split("\x1e")
+    .map((record) => record.replace(/^\n/, ""))
+    .filter((record) => record.trim())
+    .map((record) => {
+      const [sha, name, email, trailers = ""] = record.split("\x00");
+      const coAuthors = trailers
+        .split("\x01")
+        .map((value) => /^(.*?)\s*<([^>]+)>$/.exec(value.trim()))
+        .filter((match) => match !== null)
+        .map((match) => ({
+          name: match[1].trim() || match[2],
+          email: match[2],
+          isAuthor: false,
+        }));
+      return {
+        sha,
+        people: [{ name, email, isAuthor: true }, ...coAuthors],
+      };
+    });
+}
+
+export function loginFromEmail(email: string): string | null {
+  return NOREPLY_EMAIL.exec(email)?.[1] ?? null;
+}
+
+export function getContributors(
+  previousTag: string,
+  currentTag: string,
+  paths: string[] = []
+): Contributor[] {
+  const range = previousTag ? `${previousTag}..${currentTag}` : currentTag;
+  const records = parseContributorLog(
+    runGit(["log", "--reverse", CONTRIBUTOR_FORMAT, range, ...pathspec(paths)], {
+      maxBuffer: 64 * 1024 * 1024,
+    })
+  );
+  const previousEmails = new Set<string>();
+  if (previousTag) {
+    const history = parseContributorLog(
+      runGit(["log", CONTRIBUTOR_FORMAT, previousTag, ...pathspec(paths)], {
+        maxBuffer: 64 * 1024 * 1024,
+      })
+    );
+    for (const record of history) {
+      for (const person of record.people) {
+        previousEmails.add(person.email.toLowerCase());
+      }
+    }
+  }
+
+  const contributors = new Map<string, Contributor>();
+  for (const record of records) {
+    for (const person of record.people) {
+      const key = person.email.toLowerCase();
+      const existing = contributors.get(key);
+      if (existing) {
+        if (!existing.firstSha && person.isAuthor) {
+          existing.firstSha = record.sha;
+        }
+        continue;
+      }
+      contributors.set(key, {
+        name: person.name,
+        email: person.email,
+        login: loginFromEmail(person.email),
+        firstSha: person.isAuthor ? record.sha : "",
+        firstTime: Boolean(previousTag) && !previousEmails.has(key),
+      });
+    }
+  }
+
+  return [...contributors.values()];
+}
+
+export const CONTRIBUTORS_HEADING = "## Contributors";
+
+export function formatContributorsSection(contributors: Contributor[]): string {
+  const merged = new Map<string, Contributor>();
+  for (const contributor of contributors) {
+    const key = contributor.login
+      ? `@${contributor.login.toLowerCase()}`
+      : contributor.email.toLowerCase();
+    const existing = merged.get(key);
+    if (existing) {
+      existing.firstTime = existing.firstTime && contributor.firstTime;
+    } else {
+      merged.set(key, { ...contributor });
+    }
+  }
+  if (!merged.size) {
+    return "";
+  }
+
+  const display = (contributor: Contributor) =>
+    contributor.login ? `@${contributor.login}` : contributor.name;
+  const everyone = [...merged.values()];
+  const firstTimers = everyone.filter((contributor) => contributor.firstTime);
+  const lines = [
+    CONTRIBUTORS_HEADING,
+    "",
+    everyone.map(display).join(", "),
+  ];
+  if (firstTimers.length) {
+    lines.push(
+      "",
+      "### First-time Contributors",
+      "",
+      ...firstTimers.map((contributor) => `- ${display(contributor)}`)
+    );
+  }
+  return lines.join("\n");
+}
+
 export function redactPossibleSecrets(text: string): RedactionResult {
   let result = text;
   let count = 0;
@@ -298,11 +1033,37 @@ export function redactCommitData(commits: CommitData[]): RedactedCommitData {
       return redacted.text;
     });
     count += message.count;
+    const breakingChanges = commit.breakingChanges.map((change) => {
+      const summary = redactPossibleSecrets(change.summary);
+      count += summary.count;
+      return {
+        ...change,
+        summary: summary.text,
+        evidence: change.evidence.map((line) => {
+          const redacted = redactPossibleSecrets(line);
+          count += redacted.count;
+          return redacted.text;
+        }),
+      };
+    });
+
+    let pullRequest = commit.pullRequest;
+    if (pullRequest) {
+      const title = redactPossibleSecrets(pullRequest.title);
+      const body = redactPossibleSecrets(pullRequest.body);
+      count += title.count + body.count;
+      pullRequest = { ...pullRequest, title: title.text, body: body.text };
+    }
 
     return {
       ...commit,
       message: message.text,
       diffLines,
+      conventional: commit.conventional
+        ? parseConventionalCommit(message.text)
+        : null,
+      breakingChanges,
+      pullRequest,
     };
   });
 
@@ -328,8 +1089,18 @@ function formatFileStatus(status: string): string {
   }
 }
 
-function fallbackFileChanges(sha: string, maxLines: number): string[] {
-  const output = runGit(["show", "--name-status", "--pretty=format:", sha]);
+function fallbackFileChanges(
+  sha: string,
+  maxLines: number,
+  paths: string[] = []
+): string[] {
+  const output = runGit([
+    "show",
+    "--name-status",
+    "--pretty=format:",
+    sha,
+    ...pathspec(paths),
+  ]);
   if (!output) {
     return [];
   }
@@ -369,16 +1140,36 @@ function isSourcePath(path: string, extensions: Set<string>): boolean {
   return extensions.has(normalized.slice(dotIndex));
 }
 
-function getFileStats(sha: string, extensions: Set<string>): FileStat[] {
-  const output = runGit(["show", "--numstat", "--pretty=format:", sha]);
+function getFileStats(
+  sha: string,
+  extensions: Set<string>,
+  paths: string[] = []
+): FileStat[] {
+  const output = runGit([
+    "show",
+    "--numstat",
+    "--summary",
+    "--pretty=format:",
+    sha,
+    ...pathspec(paths),
+  ]);
   if (!output) {
     return [];
   }
   const stats: FileStat[] = [];
+  const deletedPaths = new Set<string>();
   for (const line of output.split("\n")) {
     if (!line.trim()) {
       continue;
     }
+    const deleteMatch = /^ delete mode \d+ (.+)$/.exec(line);
+    if (deleteMatch) {
+      deletedPaths.add(deleteMatch[1]);
+      continue;
+    }
+    if (line.startsWith(" ")) {
+      continue;
+    }
     const [additions, deletions, ...pathParts] = line.split("\t");
     const rawPath = pathParts.join("\t");
     if (!rawPath) {
@@ -387,9 +1178,12 @@ function getFileStats(sha: string, extensions: Set<string>): FileStat[] {
     const path = normalizePath(rawPath);
     const isBinary = additions === "-" || deletions === "-";
     const isSource = !isBinary && isSourcePath(path, extensions);
-    stats.push({ path, isBinary, isSource });
+    stats.push({ path, isBinary, isSource, isDeleted: false });
   }
-  return stats;
+  return stats.map((stat) => ({
+    ...stat,
+    isDeleted: deletedPaths.has(stat.path),
+  }));
 }
 
 function summarizeNonSource(file: FileStat): string {
@@ -407,7 +1201,8 @@ export function extractDiffLines(
   diff: string,
   maxLines: number,
   sha: string,
-  allowedPaths?: Set<string>
+  allowedPaths?: Set<string>,
+  paths: string[] = []
 ): string[] {
   const results: string[] = [];
   let currentFile = "";
@@ -456,12 +1251,219 @@ export function extractDiffLines(
   }
 
   if (!results.length) {
-    return fallbackFileChanges(sha, maxLines);
+    return fallbackFileChanges(sha, maxLines, paths);
   }
 
   return results;
 }
 
+const CONVENTIONAL_HEADER = /^([A-Za-z]+)(?:\(([^()\r\n]*)\))?(!)?: +(\S.*)$/;
+const BREAKING_FOOTER = /^BREAKING[ -]CHANGE: *(.*)$/;
+
+export function parseConventionalCommit(
+  message: string
+): ConventionalCommit | null {
+  const [header = "", ...bodyLines] = message.split("\n");
+  const match = CONVENTIONAL_HEADER.exec(header.trim());
+  if (!match) {
+    return null;
+  }
+
+  const breakingNotes: string[] = [];
+  for (let index = 0; index < bodyLines.length; index += 1) {
+    const footer = BREAKING_FOOTER.exec(bodyLines[index]);
+    if (!footer) {
+      continue;
+    }
+    const noteLines = [footer[1]];
+    while (
+      index + 1 < bodyLines.length &&
+      bodyLines[index + 1].trim() &&
+      !/^[A-Za-z-]+: |^BREAKING[ -]CHANGE:/.test(bodyLines[index + 1])
+    ) {
+      index += 1;
+      noteLines.push(bodyLines[index].trim());
+    }
+    breakingNotes.push(noteLines.join(" ").trim());
+  }
+
+  return {
+    type: match[1].toLowerCase(),
+    scope: match[2]?.trim() || null,
+    breaking: Boolean(match[3]) || breakingNotes.length > 0,
+    description: match[4].trim(),
+    breakingNotes: breakingNotes.filter(Boolean),
+  };
+}
+
+export function groupCommitsBySection(
+  commits: CommitData[],
+  sections: Map<string, string>
+): CommitSection[] {
+  const grouped = new Map<string, CommitData[]>();
+  for (const title of sections.values()) {
+    grouped.set(title, []);
+  }
+  grouped.set(OTHER_CHANGES_SECTION, grouped.get(OTHER_CHANGES_SECTION) ?? []);
+
+  for (const commit of commits) {
+    const title =
+      (commit.conventional && sections.get(commit.conventional.type)) ||
+      OTHER_CHANGES_SECTION;
+    grouped.get(title)?.push(commit);
+  }
+
+  return [...grouped.entries()]
+    .filter(([, sectionCommits]) => sectionCommits.length)
+    .map(([title, sectionCommits]) => ({ title, commits: sectionCommits }));
+}
+
+const MAX_BREAKING_EVIDENCE_LINES = 8;
+const TEST_PATH = /(?:^|\/)(?:tests?|__tests__|specs?|fixtures?)\/|\.(?:test|spec)\.[^./]+$/i;
+const EXPORT_DECLARATIONS = [
+  /^\s*export\s+(?:default\s+)?(?:declare\s+)?(?:abstract\s+)?(?:async\s+)?(?:function\*?|class|const|let|var|interface|type|enum)\s+([A-Za-z0-9_$]+)/,
+  /^\s*pub\s+(?:async\s+)?(?:fn|struct|enum|trait|type|const|static|mod)\s+([A-Za-z0-9_]+)/,
+  /^\s*func\s+(?:\([^)]*\)\s*)?([A-Z][A-Za-z0-9_]*)/,
+];
+
+function isPublicPath(path: string): boolean {
+  return !TEST_PATH.test(path);
+}
+
+function exportedName(code: string): string | null {
+  for (const pattern of EXPORT_DECLARATIONS) {
+    const match = pattern.exec(code);
+    if (match) {
+      return match[1];
+    }
+  }
+  return null;
+}
+
+type FileDiff = {
+  removed: string[];
+  added: string[];
+};
+
+function splitDiffByFile(
+  diff: string,
+  allowedPaths: Set<string>
+): Map<string, FileDiff> {
+  const files = new Map<string, FileDiff>();
+  let current: FileDiff | null = null;
+
+  for (const rawLine of diff.split("\n")) {
+    const line = rawLine.replace(/\r$/, "");
+    if (line.startsWith("diff --git ")) {
+      const match = /^diff --git a\/(.+?) b\/(.+)$/.exec(line);
+      const path = match?.[2] ?? match?.[1] ?? "";
+      current = allowedPaths.has(path) ? { removed: [], added: [] } : null;
+      if (current) {
+        files.set(path, current);
+      }
+      continue;
+    }
+    if (!current || line.startsWith("+++") || line.startsWith("---")) {
+      continue;
+    }
+    if (line.startsWith("-")) {
+      current.removed.push(line.slice(1));
+    } else if (line.startsWith("+")) {
+      current.added.push(line.slice(1));
+    }
+  }
+
+  return files;
+}
+
+function formatEvidence(path: string, prefix: string, code: string): string {
+  const line = `${prefix}${code.trim()}`;
+  const trimmed =
+    line.length > MAX_LINE_LENGTH ? `${line.slice(0, MAX_LINE_LENGTH - 3)}...` : line;
+  return `${path}: ${trimmed}`;
+}
+
+export function detectBreakingChanges(
+  conventional: ConventionalCommit | null,
+  diff: string,
+  fileStats: { path: string; isSource: boolean; isDeleted: boolean }[],
+  diffLines: string[]
+): BreakingChange[] {
+  const changes: BreakingChange[] = [];
+  const commitEvidence = diffLines.slice(0, MAX_BREAKING_EVIDENCE_LINES);
+
+  if (conventional?.breakingNotes.length) {
+    for (const note of conventional.breakingNotes) {
+      changes.push({
+        reason: "breaking-footer",
+        summary: note,
+        evidence: commitEvidence,
+      });
+    }
+  } else if (conventional?.breaking) {
+    changes.push({
+      reason: "conventional-marker",
+      summary: conventional.description,
+      evidence: commitEvidence,
+    });
+  }
+
+  const publicSources = fileStats.filter(
+    (file) => file.isSource && isPublicPath(file.path)
+  );
+  const fileDiffs = splitDiffByFile(
+    diff,
+    new Set(fileStats.map((file) => file.path))
+  );
+  // Names re-declared anywhere in the commit were moved, not removed.
+  const addedNames = new Set(
+    [...fileDiffs.values()]
+      .flatMap((fileDiff) => fileDiff.added.map(exportedName))
+      .filter((name) => name !== null)
+  );
+
+  for (const file of publicSources) {
+    const fileDiff = fileDiffs.get(file.path) ?? { removed: [], added: [] };
+    if (file.isDeleted) {
+      const removedExports = fileDiff.removed.filter((code) => {
+        const name = exportedName(code);
+        return name !== null && !addedNames.has(name);
+      });
+      if (removedExports.length) {
+        changes.push({
+          reason: "deleted-file",
+          summary: `Deleted public file ${file.path}`,
+          evidence: removedExports
+            .slice(0, MAX_BREAKING_EVIDENCE_LINES)
+            .map((code) => formatEvidence(file.path, "-", code)),
+        });
+      }
+      continue;
+    }
+
+    const reported = new Set<string>();
+    for (const code of fileDiff.removed) {
+      const name = exportedName(code);
+      if (!name || addedNames.has(name) || reported.has(name)) {
+        continue;
+      }
+      reported.add(name);
+      changes.push({
+        reason: "removed-export",
+        summary: `Removed export ${name} from ${file.path}`,
+        evidence: [
+          formatEvidence(file.path, "-", code),
+          ...fileDiff.added
+            .slice(0, MAX_BREAKING_EVIDENCE_LINES - 1)
+            .map((added) => formatEvidence(file.path, "+", added)),
+        ],
+      });
+    }
+  }
+
+  return changes;
+}
+
 function formatErrorMessage(error: unknown): string {
   if (error instanceof Error) {
     return error.message;
@@ -473,11 +1475,12 @@ export function buildCommitData(
   shas: string[],
   maxDiffLines: number,
   logger: Logger = noopLogger,
-  sourceExtensions: Set<string> = DEFAULT_SOURCE_EXTENSIONS
+  sourceExtensions: Set<string> = DEFAULT_SOURCE_EXTENSIONS,
+  paths: string[] = []
 ): CommitData[] {
   return shas.map((sha) => {
     const message = runGit(["log", "-1", "--pretty=format:%s%n%n%b", sha]).trim();
-    const fileStats = getFileStats(sha, sourceExtensions);
+    const fileStats = getFileStats(sha, sourceExtensions, paths);
     const sourcePaths = fileStats
       .filter((file) => file.isSource)
       .map((file) => file.path);
@@ -486,14 +1489,28 @@ export function buildCommitData(
       .filter((file) => !file.isSource)
       .map((file) => summarizeNonSource(file));
     let diffLines: string[] = [];
+    let diff = "";
 
     try {
       if (sourcePaths.length) {
-        const diff = runGit(
-          ["show", "--no-color", "--unified=0", "--pretty=format:", sha],
+        diff = runGit(
+          [
+            "show",
+            "--no-color",
+            "--unified=0",
+            "--pretty=format:",
+            sha,
+            ...pathspec(paths),
+          ],
           { trim: false, maxBuffer: 10 * 1024 * 1024 }
         );
-        diffLines = extractDiffLines(diff, maxDiffLines, sha, sourcePathSet);
+        diffLines = extractDiffLines(
+          diff,
+          maxDiffLines,
+          sha,
+          sourcePathSet,
+          paths
+        );
       }
     } catch (error) {
       logger.warning(
@@ -506,14 +1523,77 @@ export function buildCommitData(
         : [];
     }
 
+    const conventional = parseConventionalCommit(message);
     return {
       sha,
       message: message || "(no commit message)",
       diffLines: [...diffLines, ...nonSourceEntries].slice(0, maxDiffLines),
+      files: fileStats.map((file) => file.path),
+      conventional,
+      breakingChanges: detectBreakingChanges(
+        conventional,
+        diff,
+        fileStats,
+        diffLines
+      ),
+      pullRequest: null,
     };
   });
 }
 
+function formatConventionalType(conventional: ConventionalCommit): string {
+  const scope = conventional.scope ? `(${conventional.scope})` : "";
+  return `${conventional.type}${scope}${conventional.breaking ? "!" : ""}`;
+}
+
+export function dedupeCommitsByPullRequest(
+  commits: CommitData[],
+  maxDiffLines: number
+): CommitData[] {
+  const results: CommitData[] = [];
+  const byPullRequest = new Map<number, number>();
+
+  for (const commit of commits) {
+    const number = commit.pullRequest?.number;
+    const index = number === undefined ? undefined : byPullRequest.get(number);
+    if (number === undefined || index === undefined) {
+      if (number !== undefined) {
+        byPullRequest.set(number, results.length);
+      }
+      results.push(commit);
+      continue;
+    }
+
+    const existing = results[index];
+    results[index] = {
+      ...existing,
+      message: `${existing.message}\n\n${commit.message}`,
+      diffLines: [...existing.diffLines, ...commit.diffLines].slice(
+        0,
+        maxDiffLines
+      ),
+      files: [...new Set([...existing.files, ...commit.files])],
+      conventional: existing.conventional ?? commit.conventional,
+      breakingChanges: [...existing.breakingChanges, ...commit.breakingChanges],
+    };
+  }
+
+  return results;
+}
+
+function formatPullRequest(pullRequest: PullRequestInfo): string[] {
+  const author = pullRequest.author ? ` (by @${pullRequest.author})` : "";
+  return [
+    `Pull request #${pullRequest.number}: ${pullRequest.title}${author}`,
+    ...(pullRequest.labels.length
+      ? [`Pull request labels: ${pullRequest.labels.join(", ")}`]
+      : []),
+    ...(pullRequest.body.trim()
+      ? ["Pull request description:", pullRequest.body.trim(), ""]
+      : []),
+  ];
+}
+
 export function formatCommitBlock(commit: CommitData): string {
   const diffLines = commit.diffLines.length
     ? commit.diffLines
@@ -521,6 +1601,10 @@ export function formatCommitBlock(commit: CommitData): string {
   const diffText = diffLines.map((line) => `- ${line}`).join("\n");
   return [
     `Commit ${commit.sha.slice(0, 7)}`,
+    ...(commit.conventional
+      ? [`Conventional Commit: ${formatConventionalType(commit.conventional)}`]
+      : []),
+    ...(commit.pullRequest ? formatPullRequest(commit.pullRequest) : []),
     "The following changes had this commit message:",
     commit.message,
     "",
@@ -529,20 +1613,250 @@ export function formatCommitBlock(commit: CommitData): string {
   ].join("\n");
 }
 
+export const BREAKING_CHANGES_HEADING = "## Breaking Changes";
+
+export function formatBreakingChangesBlock(commits: CommitData[]): string {
+  const entries = commits.flatMap((commit) =>
+    commit.breakingChanges.map((change) => {
+      const evidence = change.evidence.length
+        ? change.evidence.map((line) => `  - ${line}`)
+        : ["  - (No diff content available)"];
+      return [
+        `- ${commit.sha.slice(0, 7)} (${change.reason}): ${change.summary}`,
+        "  Relevant diff lines:",
+        ...evidence,
+      ].join("\n");
+    })
+  );
+  if (!entries.length) {
+    return "";
+  }
+  return [
+    `Breaking changes detected (${entries.length}):`,
+    ...entries,
+  ].join("\n");
+}
+
+function headingLevel(line: string): number {
+  return /^(#{1,6})\s/.exec(line)?.[1].length ?? 0;
+}
+
+const BREAKING_CHANGES_HEADING_LINE = /^#{1,6}\s+breaking changes\s*$/i;
+
+function formatNameList(names: string[]): string {
+  return names.map((name) => `\`${name}\``).join(", ");
+}
+
+/**
+ * Builds a migration hint from a detected change's evidence lines
+ * (`path: -code` / `path: +code`): the removed exports or deleted file, and
+ * the exports the same change declares, or the files it touched.
+ */
+function migrationHint(change: BreakingChange): string {
+  const evidence = change.evidence.flatMap((line) => {
+    const match = /^(.+?): ([+-])(.*)$/.exec(line);
+    return match ? [{ path: match[1], sign: match[2], code: match[3] }] : [];
+  });
+  if (!evidence.length) {
+    return "Migration: no diff lines were captured for this change; check the commit before upgrading.";
+  }
+  const names = (sign: string) => [
+    ...new Set(
+      evidence
+        .filter((line) => line.sign === sign)
+        .map((line) => exportedName(line.code))
+        .filter((name) => name !== null)
+    ),
+  ];
+  const removed = names("-");
+  const added = names("+").filter((name) => !removed.includes(name));
+  const paths = [...new Set(evidence.map((line) => line.path))];
+  const replacement = added.length
+    ? `; the same change declares ${formatNameList(added)}`
+    : "";
+  if (change.reason === "deleted-file") {
+    return (
+      `Migration: ${paths[0]} was deleted; stop importing ` +
+      `${removed.length ? formatNameList(removed) : "from it"}${replacement}.`
+    );
+  }
+  if (removed.length) {
+    return (
+      `Migration: ${formatNameList(removed)} is no longer exported from ` +
+      `${paths[0]}${replacement}.`
+    );
+  }
+  return `Migration: check uses of the code changed in ${paths.join(", ")}.`;
+}
+
+/** Detected breaking changes whose commit (or pull request) `sectionText` does not cite. */
+function uncitedBreakingChanges(
+  sectionText: string,
+  commits: CommitData[]
+): { commit: CommitData; change: BreakingChange }[] {
+  return commits
+    .filter(
+      (commit) =>
+        !sectionText.includes(commit.sha.slice(0, 7)) &&
+        !(commit.pullRequest && sectionText.includes(`#${commit.pullRequest.number}`))
+    )
+    .flatMap((commit) => commit.breakingChanges.map((change) => ({ commit, change })));
+}
+
+/**
+ * Moves the model's `Breaking Changes` section to the top of the notes and
+ * appends a bullet with a migration hint for every detected change whose
+ * commit (or pull request) the section does not cite.
+ */
+export function ensureBreakingChangesSection(
+  notes: string,
+  commits: CommitData[]
+): string {
+  if (!commits.some((commit) => commit.breakingChanges.length)) {
+    return notes;
+  }
+
+  const lines = notes.split("\n");
+  const start = lines.findIndex((line) => BREAKING_CHANGES_HEADING_LINE.test(line));
+  let section: string[] = [];
+  let remaining = lines;
+  if (start !== -1) {
+    const level = headingLevel(lines[start]);
+    let end = start + 1;
+    while (end < lines.length) {
+      const nextLevel = headingLevel(lines[end]);
+      if (nextLevel > 0 && nextLevel <= level) {
+        break;
+      }
+      end += 1;
+    }
+    section = lines
+      .slice(start + 1, end)
+      .map((line) => (headingLevel(line) > 0 ? line.replace(/^#+/, "###") : line));
+    remaining = [...lines.slice(0, start), ...lines.slice(end)];
+  }
+
+  const sectionText = section.join("\n");
+  const missing = uncitedBreakingChanges(sectionText, commits);
+  const sectionBody = [
+    sectionText.trim(),
+    missing
+      .map(
+        ({ commit, change }) =>
+          `- ${change.summary} (${commit.sha.slice(0, 7)}). ${migrationHint(change)}`
+      )
+      .join("\n"),
+  ]
+    .filter(Boolean)
+    .join("\n");
+  const heading = `${BREAKING_CHANGES_HEADING}\n\n${sectionBody}`;
+
+  const body = remaining.join("\n").trim();
+  return body ? `${heading}\n\n${body}` : heading;
+}
+
+export const TEMPLATE_NOTES_NOTICE =
+  "> These notes were generated from commit messages without AI because the model was unavailable, and may be regenerated later.";
+const ROOT_DIRECTORY_SECTION = "Repository Root";
+
+function topLevelDirectory(commit: CommitData): string {
+  const counts = new Map<string, number>();
+  for (const path of commit.files) {
+    const directory = path.includes("/") ? path.split("/")[0] : ROOT_DIRECTORY_SECTION;
+    counts.set(directory, (counts.get(directory) ?? 0) + 1);
+  }
+  let best = OTHER_CHANGES_SECTION;
+  let bestCount = 0;
+  for (const [directory, count] of counts) {
+    if (count > bestCount) {
+      best = directory;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+function formatTemplateBullet(commit: CommitData, repositoryUrl: string): string {
+  const summary =
+    commit.conventional?.description ?? commit.message.split("\n")[0].trim();
+  const sha = commit.sha.slice(0, 7);
+  const link = repositoryUrl ? `[${sha}](${repositoryUrl}/commit/${commit.sha})` : sha;
+  const pullRequest = commit.pullRequest ? ` #${commit.pullRequest.number}` : "";
+  return `- ${summary} (${link})${pullRequest}`;
+}
+
+/**
+ * Renders release notes without a model: one bullet per commit, grouped by
+ * Conventional Commit section when `sections` is given and any commit is
+ * conventional, otherwise by the top-level directory each commit touches
+ * most. Breaking changes are added afterwards by ensureBreakingChangesSection.
+ */
+export function renderTemplateReleaseNotes(
+  commits: CommitData[],
+  sections?: Map<string, string>,
+  repositoryUrl = ""
+): string {
+  let groups: CommitSection[];
+  if (sections && commits.some((commit) => commit.conventional)) {
+    groups = groupCommitsBySection(commits, sections);
+  } else {
+    const byDirectory = new Map<string, CommitData[]>();
+    for (const commit of commits) {
+      const directory = topLevelDirectory(commit);
+      byDirectory.set(directory, [...(byDirectory.get(directory) ?? []), commit]);
+    }
+    groups = [...byDirectory.entries()]
+      .sort(([left], [right]) => left.localeCompare(right))
+      .map(([title, sectionCommits]) => ({ title, commits: sectionCommits }));
+  }
+
+  const lines = ["## What's Changed", "", TEMPLATE_NOTES_NOTICE];
+  for (const group of groups) {
+    lines.push(
+      "",
+      `### ${group.title}`,
+      "",
+      ...group.commits.map((commit) => formatTemplateBullet(commit, repositoryUrl))
+    );
+  }
+  if (!commits.length) {
+    lines.push("", "- No changes.");
+  }
+  return lines.join("\n");
+}
+
 export function buildPrompt(
   currentTag: string,
   previousTag: string,
   commits: CommitData[],
-  githubNotes: string
+  githubNotes: string,
+  sections?: Map<string, string>
 ): string {
+  const grouped =
+    sections && commits.some((commit) => commit.conventional)
+      ? groupCommitsBySection(commits, sections)
+      : null;
   const header = [
     `Release tag: ${currentTag}`,
     previousTag ? `Previous tag: ${previousTag}` : "Previous tag: (none)",
     `Commit count: ${commits.length}`,
+    ...(grouped
+      ? [
+          `Sections (in order): ${grouped.map((section) => section.title).join(", ")}`,
+          "Commits are pre-grouped into these sections by Conventional Commit type.",
+        ]
+      : []),
     "",
   ].join("\n");
 
-  const commitBlocks = commits.length
+  const commitBlocks = grouped
+    ? grouped.map((section) =>
+        [
+          `Section: ${section.title}`,
+          ...section.commits.map((commit) => formatCommitBlock(commit)),
+        ].join("\n\n")
+      )
+    : commits.length
     ? commits.map((commit) => formatCommitBlock(commit))
     : [
         "No commits were found between the previous and current tag.",
@@ -550,6 +1864,10 @@ export function buildPrompt(
       ];
 
   let prompt = `${header}${commitBlocks.join("\n\n")}`;
+  const breakingBlock = formatBreakingChangesBlock(commits);
+  if (breakingBlock) {
+    prompt += `\n\n${breakingBlock}`;
+  }
   if (githubNotes) {
     prompt += `\n\nGitHub auto-generated notes (extra context, do not quote verbatim):\n${githubNotes}`;
   }
@@ -557,6 +1875,602 @@ export function buildPrompt(
   return prompt;
 }
 
+export type StructuredReleaseNoteItem = {
+  summary: string;
+  commits: string[];
+};
+
+export type StructuredReleaseNoteSection = {
+  title: string;
+  items: StructuredReleaseNoteItem[];
+};
+
+export type StructuredReleaseNotes = {
+  sections: StructuredReleaseNoteSection[];
+};
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === "string");
+}
+
+export function parseStructuredReleaseNotes(text: string): StructuredReleaseNotes {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (error) {
+    throw new Error(
+      `Structured release notes are not valid JSON: ${formatErrorMessage(error)}`
+    );
+  }
+
+  const sections = (parsed as { sections?: unknown } | null)?.sections;
+  if (!Array.isArray(sections)) {
+    throw new Error("Structured release notes must contain a sections array.");
+  }
+
+  return {
+    sections: sections.map((section, sectionIndex) => {
+      const { title, items } = (section ?? {}) as {
+        title?: unknown;
+        items?: unknown;
+      };
+      if (typeof title !== "string" || !title.trim() || !Array.isArray(items)) {
+        throw new Error(
+          `Structured release notes section ${sectionIndex + 1} must have a title and an items array.`
+        );
+      }
+      return {
+        title: title.trim(),
+        items: items.map((item, itemIndex) => {
+          const { summary, commits } = (item ?? {}) as {
+            summary?: unknown;
+            commits?: unknown;
+          };
+          if (typeof summary !== "string" || !summary.trim() || !isStringArray(commits)) {
+            throw new Error(
+              `Structured release notes item ${itemIndex + 1} in "${title.trim()}" must have a summary and a commits array.`
+            );
+          }
+          return {
+            summary: summary.trim(),
+            commits: commits.map((sha) => sha.trim()).filter(Boolean),
+          };
+        }),
+      };
+    }),
+  };
+}
+
+/**
+ * Structured variant of ensureBreakingChangesSection: adds an item with a
+ * migration hint to the `Breaking Changes` section (created first when
+ * missing) for every detected change the section does not cite.
+ */
+export function ensureStructuredBreakingChanges(
+  notes: StructuredReleaseNotes,
+  commits: CommitData[]
+): StructuredReleaseNotes {
+  const index = notes.sections.findIndex((section) =>
+    /^breaking changes$/i.test(section.title.trim())
+  );
+  const section =
+    index === -1 ? { title: "Breaking Changes", items: [] } : notes.sections[index];
+  const missing = uncitedBreakingChanges(
+    section.items
+      .map((item) => [item.summary, ...item.commits].join(" "))
+      .join("\n"),
+    commits
+  );
+  if (!missing.length) {
+    return notes;
+  }
+  const updated = {
+    ...section,
+    items: [
+      ...section.items,
+      ...missing.map(({ commit, change }) => ({
+        summary: `${change.summary.replace(/\.$/, "")}. ${migrationHint(change)}`,
+        commits: [commit.sha],
+      })),
+    ],
+  };
+  return {
+    sections:
+      index === -1
+        ? [updated, ...notes.sections]
+        : notes.sections.map((candidate, position) =>
+            position === index ? updated : candidate
+          ),
+  };
+}
+
+export function renderStructuredReleaseNotes(notes: StructuredReleaseNotes): string {
+  const renderSection = (
+    section: StructuredReleaseNoteSection,
+    heading: string
+  ) => [
+    `${heading} ${section.title}`,
+    "",
+    ...section.items.map((item) => {
+      const refs = item.commits.map((sha) => sha.slice(0, 7)).join(", ");
+      return refs ? `- ${item.summary} (${refs})` : `- ${item.summary}`;
+    }),
+  ];
+  const sections = notes.sections.filter((section) => section.items.length);
+  const breaking = sections.filter((section) =>
+    /^breaking changes$/i.test(section.title)
+  );
+  const others = sections.filter((section) => !breaking.includes(section));
+
+  const blocks = breaking.map((section) =>
+    renderSection({ ...section, title: "Breaking Changes" }, "##").join("\n")
+  );
+  blocks.push(
+    [
+      "## What's Changed",
+      ...others.flatMap((section) => ["", ...renderSection(section, "###")]),
+      ...(others.length ? [] : ["", "- No user-facing changes."]),
+    ].join("\n")
+  );
+  return blocks.join("\n\n");
+}
+
+export type UnsupportedBulletMode = "drop" | "flag" | "off";
+
+export const UNVERIFIED_BULLET_MARKER = "(unverified: no matching commit)";
+
+export function parseUnsupportedBulletMode(input: string): UnsupportedBulletMode {
+  const value = input.trim().toLowerCase() || "drop";
+  if (["drop", "flag", "off"].includes(value)) {
+    return value as UnsupportedBulletMode;
+  }
+  throw new Error("unsupported_bullets must be one of: drop, flag, off.");
+}
+
+export type ReleaseNoteSources = {
+  shas: string[];
+  pullRequests: number[];
+};
+
+export function collectReleaseNoteSources(
+  shas: string[],
+  commits: CommitData[]
+): ReleaseNoteSources {
+  return {
+    shas: [...new Set([...shas, ...commits.map((commit) => commit.sha)])],
+    pullRequests: [
+      ...new Set(
+        commits.flatMap((commit) =>
+          commit.pullRequest ? [commit.pullRequest.number] : []
+        )
+      ),
+    ],
+  };
+}
+
+function isKnownSha(reference: string, sources: ReleaseNoteSources): boolean {
+  const prefix = reference.toLowerCase();
+  return (
+    prefix.length >= 7 &&
+    sources.shas.some((sha) => sha.toLowerCase().startsWith(prefix))
+  );
+}
+
+function citesKnownSource(text: string, sources: ReleaseNoteSources): boolean {
+  const shaReferences = text.match(/\b[0-9a-f]{7,40}\b/gi) ?? [];
+  const pullRequestReferences = [...text.matchAll(/#(\d+)\b/g)].map((match) =>
+    Number(match[1])
+  );
+  return (
+    shaReferences.some((reference) => isKnownSha(reference, sources)) ||
+    pullRequestReferences.some((number) => sources.pullRequests.includes(number))
+  );
+}
+
+function removeEmptyHeadings(lines: string[]): string[] {
+  let result = lines;
+  let changed = true;
+  while (changed) {
+    changed = false;
+    const next: string[] = [];
+    for (let index = 0; index < result.length; index += 1) {
+      const level = headingLevel(result[index]);
+      if (level > 0) {
+        let following = index + 1;
+        while (following < result.length && !result[following].trim()) {
+          following += 1;
+        }
+        const followingLevel =
+          following < result.length ? headingLevel(result[following]) : 1;
+        if (followingLevel > 0 && followingLevel <= level) {
+          changed = true;
+          continue;
+        }
+      }
+      next.push(result[index]);
+    }
+    result = next;
+  }
+  return result;
+}
+
+/** Published instead of an empty body when drop mode removes every bullet. */
+export const NO_VERIFIED_CHANGES_NOTES = "## What's Changed\n\n- No changes.";
+
+export type SourceVerification<T> = {
+  notes: T;
+  unsupported: string[];
+};
+
+/**
+ * Checks that every top-level bullet cites a commit SHA from the release range
+ * or a pull request number attached to one of its commits. Unsupported bullets
+ * (and their indented continuation lines) are dropped or flagged; headings left
+ * without content are removed, and a body left empty becomes a "No changes."
+ * placeholder.
+ */
+export function verifyReleaseNoteSources(
+  notes: string,
+  sources: ReleaseNoteSources,
+  mode: Exclude<UnsupportedBulletMode, "off">
+): SourceVerification<string> {
+  const unsupported: string[] = [];
+  const lines: string[] = [];
+  let dropping = false;
+
+  for (const line of notes.split("\n")) {
+    if (/^[-*]\s+/.test(line)) {
+      dropping = false;
+      if (!citesKnownSource(line, sources)) {
+        unsupported.push(line.replace(/^[-*]\s+/, "").trim());
+        if (mode === "drop") {
+          dropping = true;
+          continue;
+        }
+        lines.push(`${line.trimEnd()} ${UNVERIFIED_BULLET_MARKER}`);
+        continue;
+      }
+    } else if (dropping && /^\s+\S/.test(line)) {
+      continue;
+    } else {
+      dropping = false;
+    }
+    lines.push(line);
+  }
+
+  if (mode === "flag" || !unsupported.length) {
+    return { notes: lines.join("\n"), unsupported };
+  }
+  const remaining = removeEmptyHeadings(lines)
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+  return { notes: remaining || NO_VERIFIED_CHANGES_NOTES, unsupported };
+}
+
+/**
+ * Structured variant of verifyReleaseNoteSources: SHAs outside the release
+ * range are removed from each item, and items left without a source are
+ * dropped or flagged.
+ */
+export function verifyStructuredReleaseNoteSources(
+  notes: StructuredReleaseNotes,
+  sources: ReleaseNoteSources,
+  mode: Exclude<UnsupportedBulletMode, "off">
+): SourceVerification<StructuredReleaseNotes> {
+  const unsupported: string[] = [];
+  const sections = notes.sections.map((section) => ({
+    ...section,
+    items: section.items.flatMap((item) => {
+      const commits = item.commits.filter((sha) => isKnownSha(sha, sources));
+      if (commits.length || citesKnownSource(item.summary, sources)) {
+        return [{ ...item, commits }];
+      }
+      unsupported.push(item.summary);
+      if (mode === "drop") {
+        return [];
+      }
+      return [{ summary: `${item.summary} ${UNVERIFIED_BULLET_MARKER}`, commits }];
+    }),
+  }));
+
+  return {
+    notes: {
+      sections:
+        mode === "drop"
+          ? sections.filter((section) => section.items.length)
+          : sections,
+    },
+    unsupported,
+  };
+}
+
+export const UNRELEASED_CHANGELOG_LABEL = "Unreleased";
+
+const CHANGELOG_HEADER = [
+  "# Changelog",
+  "",
+  "All notable changes to this project will be documented in this file.",
+  "",
+  "The format is based on [Keep a Changelog](https://keepachangelog.com/en/1.1.0/).",
+  "",
+].join("\n");
+const CHANGELOG_VERSION_HEADING = /^## \[?([^\]\s]+)\]?/;
+const LINK_REFERENCE_DEFINITION = /^\[[^\]]+\]:\s*\S/;
+
+export type ChangelogEntry = {
+  /** Heading label such as `1.2.0` or `Unreleased`. */
+  label: string;
+  date: string;
+  compareUrl: string;
+  notes: string;
+};
+
+/** Returns the version part of a tag (`v1.2.0` → `1.2.0`) for changelog headings. */
+export function changelogVersionLabel(
+  tag: string,
+  scheme: VersionScheme = "semver"
+): string {
+  if (scheme === "custom") {
+    return tag;
+  }
+  const match = (scheme === "semver" ? SEMVER_SUFFIX : CALVER_SUFFIX).exec(tag);
+  return match ? tag.slice(match.index) : tag;
+}
+
+export function changelogCompareUrl(
+  serverUrl: string,
+  repository: string,
+  previousTag: string,
+  headRef: string
+): string {
+  return previousTag && repository
+    ? `${serverUrl.replace(/\/+$/, "")}/${repository}/compare/${previousTag}...${headRef}`
+    : "";
+}
+
+/**
+ * Renders release notes as one Keep a Changelog version section. The
+ * `## What's Changed` wrapper is dropped (or becomes `### Changed` when it
+ * holds bullets directly) and other `##` sections are demoted to `###`, along
+ * with every heading nested under them.
+ */
+export function formatChangelogSection(entry: ChangelogEntry): string {
+  const label = entry.compareUrl
+    ? `[${entry.label}](${entry.compareUrl})`
+    : `[${entry.label}]`;
+  const heading =
+    entry.label === UNRELEASED_CHANGELOG_LABEL
+      ? `## ${label}`
+      : `## ${label} - ${entry.date}`;
+  const lines = entry.notes.trim().split("\n");
+  const body: string[] = [];
+  let demote = false;
+  for (let index = 0; index < lines.length; index += 1) {
+    const line = lines[index];
+    const level = headingLevel(line);
+    if (level !== 2) {
+      body.push(demote && level > 0 && level < 6 ? `#${line}` : line);
+      continue;
+    }
+    demote = line.trim() !== "## What's Changed";
+    if (demote) {
+      body.push(`#${line}`);
+      continue;
+    }
+    const next = lines.slice(index + 1).find((candidate) => candidate.trim());
+    if (next !== undefined && headingLevel(next) === 0) {
+      body.push("### Changed");
+    } else if (body.length && !body[body.length - 1].trim()) {
+      body.pop();
+    }
+  }
+  while (body.length && !body[0].trim()) {
+    body.shift();
+  }
+  return body.length ? `${heading}\n\n${body.join("\n")}` : heading;
+}
+
+function changelogHeadingLabel(line: string): string | null {
+  return CHANGELOG_VERSION_HEADING.exec(line)?.[1].toLowerCase() ?? null;
+}
+
+/** Index of the trailing block of blank lines and link reference definitions. */
+function changelogFooterStart(lines: string[]): number {
+  let footer = lines.length;
+  while (
+    footer > 0 &&
+    (!lines[footer - 1].trim() || LINK_REFERENCE_DEFINITION.test(lines[footer - 1]))
+  ) {
+    footer -= 1;
+  }
+  return footer;
+}
+
+/** Empties the `Unreleased` section once its changes ship in a version section. */
+function clearUnreleasedSection(lines: string[]): string[] {
+  const footer = changelogFooterStart(lines);
+  const start = lines.findIndex(
+    (line, index) =>
+      index < footer &&
+      changelogHeadingLabel(line) === UNRELEASED_CHANGELOG_LABEL.toLowerCase()
+  );
+  if (start < 0) {
+    return lines;
+  }
+  let end = start + 1;
+  while (end < footer && changelogHeadingLabel(lines[end]) === null) {
+    end += 1;
+  }
+  const separator = end < lines.length && lines[end].trim() ? [""] : [];
+  return [
+    ...lines.slice(0, start),
+    `## [${UNRELEASED_CHANGELOG_LABEL}]`,
+    ...separator,
+    ...lines.slice(end),
+  ];
+}
+
+/**
+ * Inserts or replaces the section for `entry.label` and leaves every other
+ * line of the changelog untouched. New version sections go below the
+ * `Unreleased` section, or above the first existing version section; writing
+ * a version section empties the `Unreleased` section it finalizes.
+ */
+export function updateChangelog(existing: string, entry: ChangelogEntry): string {
+  const section = formatChangelogSection(entry).split("\n");
+  if (!existing.trim()) {
+    return `${CHANGELOG_HEADER}\n${section.join("\n")}\n`;
+  }
+
+  let lines = existing.split("\n");
+  if (entry.label !== UNRELEASED_CHANGELOG_LABEL) {
+    lines = clearUnreleasedSection(lines);
+  }
+  const headingLabel = changelogHeadingLabel;
+  const footer = changelogFooterStart(lines);
+  const sectionEnd = (start: number) => {
+    let end = start + 1;
+    while (end < footer && headingLabel(lines[end]) === null) {
+      end += 1;
+    }
+    return end;
+  };
+  const splice = (start: number, end: number) => {
+    const replacement =
+      end < lines.length && lines[end].trim() ? [...section, ""] : section;
+    return [...lines.slice(0, start), ...replacement, ...lines.slice(end)].join(
+      "\n"
+    );
+  };
+
+  const label = entry.label.toLowerCase();
+  const current = lines.findIndex((line, index) => {
+    const candidate = index < footer ? headingLabel(line) : null;
+    return candidate === label || candidate === `v${label}`;
+  });
+  if (current >= 0) {
+    let end = sectionEnd(current);
+    while (end > current + 1 && !lines[end - 1].trim()) {
+      end -= 1;
+    }
+    return splice(current, end);
+  }
+
+  const unreleased = lines.findIndex(
+    (line, index) =>
+      index < footer &&
+      headingLabel(line) === UNRELEASED_CHANGELOG_LABEL.toLowerCase()
+  );
+  let insertAt =
+    unreleased >= 0
+      ? sectionEnd(unreleased)
+      : lines.findIndex(
+          (line, index) => index < footer && headingLabel(line) !== null
+        );
+  if (insertAt < 0) {
+    insertAt = footer;
+  }
+  const before = lines.slice(0, insertAt);
+  if (before.length && before[before.length - 1].trim()) {
+    before.push("");
+  }
+  const after = lines.slice(insertAt);
+  if (!after.some((line) => line.trim())) {
+    return `${[...before, ...section].join("\n")}\n`;
+  }
+  const separator = after[0].trim() ? [""] : [];
+  return [...before, ...section, ...separator, ...after].join("\n");
+}
+
+export function writeChangelogFile(path: string, entry: ChangelogEntry): void {
+  const fullPath = resolve(path);
+  const existing = existsSync(fullPath) ? readFileSync(fullPath, "utf8") : "";
+  writeFileSync(fullPath, updateChangelog(existing, entry));
+}
+
+/**
+ * Line diff from `before` to `after` via longest common subsequence, listing
+ * only removed (`- `) and added (`+ `) lines in order.
+ */
+export function diffTextLines(before: string, after: string): string[] {
+  const old = before ? before.split("\n") : [];
+  const next = after ? after.split("\n") : [];
+  const common = Array.from({ length: old.length + 1 }, () =>
+    new Array<number>(next.length + 1).fill(0)
+  );
+  for (let i = old.length - 1; i >= 0; i -= 1) {
+    for (let j = next.length - 1; j >= 0; j -= 1) {
+      common[i][j] =
+        old[i] === next[j]
+          ? common[i + 1][j + 1] + 1
+          : Math.max(common[i + 1][j], common[i][j + 1]);
+    }
+  }
+  const lines: string[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < old.length || j < next.length) {
+    if (i < old.length && j < next.length && old[i] === next[j]) {
+      i += 1;
+      j += 1;
+    } else if (j >= next.length || (i < old.length && common[i + 1][j] >= common[i][j + 1])) {
+      lines.push(`- ${old[i]}`);
+      i += 1;
+    } else {
+      lines.push(`+ ${next[j]}`);
+      j += 1;
+    }
+  }
+  return lines;
+}
+
+export const PROMPT_TEMPLATE_VARIABLES = [
+  "tag",
+  "previous_tag",
+  "repo",
+  "commit_count",
+  "date",
+] as const;
+
+export type PromptTemplateVariables = Record<
+  (typeof PROMPT_TEMPLATE_VARIABLES)[number],
+  string
+>;
+
+const TEMPLATE_VARIABLE = /\{\{\s*([A-Za-z0-9_.-]*)\s*\}\}/g;
+
+export function validatePromptTemplate(template: string, source: string): void {
+  const known = new Set<string>(PROMPT_TEMPLATE_VARIABLES);
+  const unknown = [
+    ...new Set(
+      [...template.matchAll(TEMPLATE_VARIABLE)]
+        .map((match) => match[1])
+        .filter((name) => !known.has(name))
+    ),
+  ];
+  if (unknown.length) {
+    throw new Error(
+      `${source} uses unknown template variable(s): ${unknown
+        .map((name) => `{{${name}}}`)
+        .join(", ")}. Supported variables: ${PROMPT_TEMPLATE_VARIABLES.map(
+        (name) => `{{${name}}}`
+      ).join(", ")}.`
+    );
+  }
+}
+
+export function renderPromptTemplate(
+  template: string,
+  variables: PromptTemplateVariables
+): string {
+  return template.replace(
+    TEMPLATE_VARIABLE,
+    (match, name: string) =>
+      variables[name as keyof PromptTemplateVariables] ?? match
+  );
+}
+
 export function extractResponseText(response: any): string {
   if (response?.output_text) {
     return response.output_text;
@@ -0,0 +1,782 @@
+import {
+  CONTRIBUTORS_HEADING,
+  diffTextLines,
+  updateChangelog,
+  type ChangelogEntry,
+  type CommitData,
+  type Contributor,
+  type Logger,
+  type PullRequestInfo,
+} from "./lib";
+
+const MAX_PULL_REQUEST_BODY_LENGTH = 2000;
+
+export type ExistingReleaseBehavior = "update_draft" | "fail" | "update_any";
+
+export type RepoContext = {
+  sha: string;
+  repo: {
+    owner: string;
+    repo: string;
+  };
+};
+
+export type ReleaseData = {
+  id: number;
+  html_url?: string | null;
+  draft?: boolean;
+  body?: string | null;
+  /** Parsed from the hidden marker in `body` by the lookup helpers. */
+  metadata?: ReleaseMetadata | null;
+};
+
+/** What a release body was generated from, so a rerun can summarize only newer commits. */
+export type ReleaseMetadata = {
+  /** Commit SHA at the end of the range the notes cover. */
+  head: string;
+  model: string;
+  promptHash: string;
+};
+
+export type ReleaseRequest = {
+  owner: string;
+  repo: string;
+  tag_name: string;
+  name: string;
+  body: string;
+  draft: boolean;
+  prerelease: boolean;
+  target_commitish: string;
+};
+
+export type AssociatedPullRequest = {
+  number: number;
+  title: string;
+  body?: string | null;
+  labels: Array<{ name?: string } | string>;
+  user?: { login: string } | null;
+  merged_at?: string | null;
+};
+
+export type IssueComment = {
+  id: number;
+  body?: string | null;
+  html_url: string;
+};
+
+export type PullRequestData = {
+  number: number;
+  html_url: string;
+};
+
+type FileContent = {
+  type?: string;
+  content?: string;
+  encoding?: string;
+  sha: string;
+};
+
+export type OctokitLike = {
+  rest: {
+    git: {
+      getRef: (args: {
+        owner: string;
+        repo: string;
+        ref: string;
+      }) => Promise<{ data: { object: { sha: string } } }>;
+      createRef: (args: {
+        owner: string;
+        repo: string;
+        ref: string;
+        sha: string;
+      }) => Promise<unknown>;
+    };
+    pulls: {
+      list: (args: {
+        owner: string;
+        repo: string;
+        head: string;
+        base: string;
+        state: "open";
+      }) => Promise<{ data: PullRequestData[] }>;
+      create: (args: {
+        owner: string;
+        repo: string;
+        title: string;
+        head: string;
+        base: string;
+        body: string;
+      }) => Promise<{ data: PullRequestData }>;
+      update: (args: {
+        owner: string;
+        repo: string;
+        pull_number: number;
+        title: string;
+        body: string;
+      }) => Promise<{ data: PullRequestData }>;
+    };
+    issues: {
+      listComments: (args: {
+        owner: string;
+        repo: string;
+        issue_number: number;
+        per_page?: number;
+      }) => Promise<{ data: IssueComment[] }>;
+      createComment: (args: {
+        owner: string;
+        repo: string;
+        issue_number: number;
+        body: string;
+      }) => Promise<{ data: IssueComment }>;
+      updateComment: (args: {
+        owner: string;
+        repo: string;
+        comment_id: number;
+        body: string;
+      }) => Promise<{ data: IssueComment }>;
+    };
+    repos: {
+      get: (args: {
+        owner: string;
+        repo: string;
+      }) => Promise<{ data: { default_branch: string } }>;
+      getContent: (args: {
+        owner: string;
+        repo: string;
+        path: string;
+        ref: string;
+      }) => Promise<{ data: FileContent | FileContent[] }>;
+      createOrUpdateFileContents: (args: {
+        owner: string;
+        repo: string;
+        path: string;
+        message: string;
+        content: string;
+        branch: string;
+        sha?: string;
+      }) => Promise<unknown>;
+      listPullRequestsAssociatedWithCommit: (args: {
+        owner: string;
+        repo: string;
+        commit_sha: string;
+      }) => Promise<{ data: AssociatedPullRequest[] }>;
+      getCommit: (args: {
+        owner: string;
+        repo: string;
+        ref: string;
+      }) => Promise<{ data: { author?: { login: string } | null } }>;
+      generateReleaseNotes: (args: {
+        owner: string;
+        repo: string;
+        tag_name: string;
+        target_commitish: string;
+        previous_tag_name?: string;
+      }) => Promise<{ data: { body?: string | null } }>;
+      listReleases: (args: {
+        owner: string;
+        repo: string;
+        per_page?: number;
+      }) => Promise<{ data: ReleaseData[] }>;
+      getReleaseByTag: (args: {
+        owner: string;
+        repo: string;
+        tag: string;
+      }) => Promise<{ data: ReleaseData }>;
+      createRelease: (args: ReleaseRequest) => Promise<{ data: ReleaseData }>;
+      updateRelease: (
+        args: ReleaseRequest & { release_id: number }
+      ) => Promise<{ data: ReleaseData }>;
+    };
+  };
+};
+
+export function parseExistingReleaseBehavior(
+  input: string
+): ExistingReleaseBehavior {
+  const value = input || "update_draft";
+  if (["update_draft", "fail", "update_any"].includes(value)) {
+    return value as ExistingReleaseBehavior;
+  }
+  throw new Error(
+    "existing_release_behavior must be one of: update_draft, fail, update_any."
+  );
+}
+
+function isNotFoundError(error: unknown): boolean {
+  return (
+    typeof error === "object" &&
+    error !== null &&
+    "status" in error &&
+    error.status === 404
+  );
+}
+
+export async function getExistingRelease(
+  octokit: OctokitLike,
+  repoContext: RepoContext,
+  tag: string
+): Promise<ReleaseData | null> {
+  try {
+    const release = await octokit.rest.repos.getReleaseByTag({
+      owner: repoContext.repo.owner,
+      repo: repoContext.repo.repo,
+      tag,
+    });
+    return withMetadata(release.data);
+  } catch (error) {
+    if (isNotFoundError(error)) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+export const UNRELEASED_TAG = "unreleased";
+
+const UNRELEASED_MARKER = /<!-- release-notes-scribe:unreleased since=(\S*) -->\n?/;
+
+function unreleasedMarker(previousTag: string): string {
+  return `<!-- release-notes-scribe:unreleased since=${previousTag} -->`;
+}
+
+const METADATA_MARKER =
+  /\n*<!-- release-notes-scribe:metadata head=(\S+) model=(\S+) prompt=(\S+) -->/;
+
+export function formatReleaseMetadata(metadata: ReleaseMetadata): string {
+  return `<!-- release-notes-scribe:metadata head=${metadata.head} model=${metadata.model} prompt=${metadata.promptHash} -->`;
+}
+
+export function parseReleaseMetadata(body: string): ReleaseMetadata | null {
+  const match = METADATA_MARKER.exec(body);
+  return match ? { head: match[1], model: match[2], promptHash: match[3] } : null;
+}
+
+export const GENERATED_START_MARKER = "<!-- scribe:generated -->";
+export const GENERATED_END_MARKER = "<!-- /scribe:generated -->";
+
+const GENERATED_BLOCK =
+  /<!-- scribe:generated -->\n?([\s\S]*?)\n?<!-- \/scribe:generated -->/;
+const KEEP_REGION = /<!-- scribe:keep -->[\s\S]*?<!-- \/scribe:keep -->/g;
+
+/**
+ * The generated part of a release body: the `scribe:generated` block, or the
+ * whole body for releases written before the block existed, without hidden
+ * markers or `scribe:keep` regions.
+ */
+function generatedContent(body: string): string {
+  const block = GENERATED_BLOCK.exec(body);
+  return (block ? block[1] : body)
+    .replace(KEEP_REGION, "")
+    .replace(METADATA_MARKER, "")
+    .replace(UNRELEASED_MARKER, "")
+    .trim();
+}
+
+/** The notes in a release body written by this action, without hidden markers or the contributors section. */
+export function releaseNotesFromBody(body: string): string {
+  const notes = generatedContent(body);
+  const contributors = notes.lastIndexOf(`\n${CONTRIBUTORS_HEADING}\n`);
+  return (contributors === -1 ? notes : notes.slice(0, contributors)).trim();
+}
+
+/** True for a non-empty body that carries none of the action's markers, such as a draft typed by hand. */
+function isHandWrittenBody(body: string): boolean {
+  return (
+    Boolean(body.trim()) &&
+    !GENERATED_BLOCK.test(body) &&
+    !METADATA_MARKER.test(body) &&
+    !UNRELEASED_MARKER.test(body)
+  );
+}
+
+/**
+ * Replaces the generated part of an existing release body and keeps what a
+ * person wrote: text outside the `scribe:generated` block stays in place, and
+ * `scribe:keep` regions inside the block (or anywhere in an older generated
+ * body without one) are moved after the new block. A body without any of the
+ * action's markers is kept whole after the new block.
+ */
+export function mergeReleaseBody(existingBody: string, generatedBlock: string): string {
+  if (isHandWrittenBody(existingBody)) {
+    return `${generatedBlock}\n\n${existingBody.trim()}`;
+  }
+  const block = GENERATED_BLOCK.exec(existingBody);
+  const replaced = block ? block[0] : existingBody;
+  const kept = replaced.match(KEEP_REGION) ?? [];
+  const replacement = [generatedBlock, ...kept].join("\n\n");
+  if (!block) {
+    return replacement;
+  }
+  return (
+    existingBody.slice(0, block.index) +
+    replacement +
+    existingBody.slice(block.index + block[0].length)
+  );
+}
+
+function withMetadata(release: ReleaseData): ReleaseData {
+  return { ...release, metadata: parseReleaseMetadata(release.body ?? "") };
+}
+
+function releaseBody(releaseNotes: string, metadata?: ReleaseMetadata): string {
+  return [
+    GENERATED_START_MARKER,
+    releaseNotes,
+    ...(metadata ? ["", formatReleaseMetadata(metadata)] : []),
+    GENERATED_END_MARKER,
+  ].join("\n");
+}
+
+/**
+ * Merges the new notes into an existing body, dropping its unreleased marker,
+ * and logs how the generated part changed.
+ */
+function updatedReleaseBody(
+  existingBody: string,
+  generatedBlock: string,
+  label: string,
+  logger?: Pick<Logger, "info">
+): string {
+  const handWritten = isHandWrittenBody(existingBody);
+  const body = mergeReleaseBody(existingBody, generatedBlock).replace(
+    UNRELEASED_MARKER,
+    ""
+  );
+  if (logger) {
+    if (handWritten) {
+      logger.info(
+        `The existing body of ${label} has no generated block; kept it after the new notes.`
+      );
+    }
+    const diff = diffTextLines(
+      handWritten ? "" : generatedContent(existingBody),
+      generatedContent(generatedBlock)
+    );
+    logger.info(
+      diff.length
+        ? `Generated notes for ${label} changed:\n${diff.join("\n")}`
+        : `Generated notes for ${label} are unchanged.`
+    );
+  }
+  return body;
+}
+
+/**
+ * Finds the rolling unreleased draft by its hidden body marker among the 100
+ * most recent releases. With `previousTag`, only a draft covering the range
+ * since that tag matches, so a maintenance release never finalizes the draft
+ * for the main line.
+ */
+export async function findUnreleasedDraft(
+  octokit: OctokitLike,
+  repoContext: RepoContext,
+  previousTag?: string
+): Promise<ReleaseData | null> {
+  const releases = await octokit.rest.repos.listReleases({
+    owner: repoContext.repo.owner,
+    repo: repoContext.repo.repo,
+    per_page: 100,
+  });
+  const draft = releases.data.find((release) => {
+    const since = UNRELEASED_MARKER.exec(release.body ?? "")?.[1];
+    return (
+      release.draft &&
+      since !== undefined &&
+      (previousTag === undefined || since === previousTag)
+    );
+  });
+  return draft ? withMetadata(draft) : null;
+}
+
+export async function writeUnreleasedDraft(
+  octokit: OctokitLike,
+  repoContext: RepoContext,
+  releaseName: string,
+  releaseNotes: string,
+  previousTag: string,
+  metadata?: ReleaseMetadata,
+  logger?: Pick<Logger, "info">
+): Promise<ReleaseData> {
+  const draft = await findUnreleasedDraft(octokit, repoContext, previousTag);
+  const generated = releaseBody(releaseNotes, metadata);
+  const request: ReleaseRequest = {
+    owner: repoContext.repo.owner,
+    repo: repoContext.repo.repo,
+    tag_name: UNRELEASED_TAG,
+    name: releaseName,
+    body: `${unreleasedMarker(previousTag)}\n${generated}`,
+    draft: true,
+    prerelease: false,
+    target_commitish: repoContext.sha,
+  };
+
+  if (!draft) {
+    return (await octokit.rest.repos.createRelease(request)).data;
+  }
+  const body = updatedReleaseBody(
+    draft.body ?? "",
+    generated,
+    releaseName,
+    logger
+  );
+  return (
+    await octokit.rest.repos.updateRelease({
+      ...request,
+      body: `${unreleasedMarker(previousTag)}\n${body}`,
+      release_id: draft.id,
+    })
+  ).data;
+}
+
+export async function writeRelease(
+  octokit: OctokitLike,
+  repoContext: RepoContext,
+  tag: string,
+  releaseName: string,
+  releaseNotes: string,
+  draft: boolean,
+  prerelease: boolean,
+  behavior: ExistingReleaseBehavior,
+  previousTag?: string,
+  metadata?: ReleaseMetadata,
+  /** Result of an earlier `getExistingRelease` call for `tag`; looked up when undefined. */
+  knownRelease?: ReleaseData | null,
+  logger?: Pick<Logger, "info">
+): Promise<ReleaseData> {
+  const existingRelease =
+    knownRelease === undefined
+      ? await getExistingRelease(octokit, repoContext, tag)
+      : knownRelease;
+  const request: ReleaseRequest = {
+    owner: repoContext.repo.owner,
+    repo: repoContext.repo.repo,
+    tag_name: tag,
+    name: releaseName,
+    body: releaseBody(releaseNotes, metadata),
+    draft,
+    prerelease,
+    target_commitish: repoContext.sha,
+  };
+
+  if (!existingRelease) {
+    const unreleasedDraft =
+      previousTag === undefined
+        ? null
+        : await findUnreleasedDraft(octokit, repoContext, previousTag);
+    if (unreleasedDraft) {
+      return (
+        await octokit.rest.repos.updateRelease({
+          ...request,
+          body: updatedReleaseBody(
+            unreleasedDraft.body ?? "",
+            request.body,
+            tag,
+            logger
+          ),
+          release_id: unreleasedDraft.id,
+        })
+      ).data;
+    }
+    return (await octokit.rest.repos.createRelease(request)).data;
+  }
+
+  if (behavior === "fail") {
+    throw new Error(`Release ${tag} already exists.`);
+  }
+  if (behavior === "update_draft" && !existingRelease.draft) {
+    throw new Error(
+      `Release ${tag} already exists and is not a draft. Set existing_release_behavior to update_any to update published releases.`
+    );
+  }
+
+  return (
+    await octokit.rest.repos.updateRelease({
+      ...request,
+      body: updatedReleaseBody(existingRelease.body ?? "", request.body, tag, logger),
+      release_id: existingRelease.id,
+    })
+  ).data;
+}
+
+export const PULL_REQUEST_PREVIEW_MARKER =
+  "<!-- release-notes-scribe:pull-request-preview -->";
+
+/**
+ * Creates or updates the single sticky preview comment on a pull request,
+ * found by its hidden marker among the first 100 comments.
+ */
+export async function writePullRequestPreview(
+  octokit: OctokitLike,
+  repoContext: RepoContext,
+  pullRequestNumber: number,
+  releaseNotes: string
+): Promise<IssueComment> {
+  const body = [
+    PULL_REQUEST_PREVIEW_MARKER,
+    "## Release notes this pull request would contribute",
+    "",
+    releaseNotes,
+  ].join("\n");
+  const comments = await octokit.rest.issues.listComments({
+    owner: repoContext.repo.owner,
+    repo: repoContext.repo.repo,
+    issue_number: pullRequestNumber,
+    per_page: 100,
+  });
+  const existing = comments.data.find((comment) =>
+    comment.body?.includes(PULL_REQUEST_PREVIEW_MARKER)
+  );
+
+  if (existing) {
+    return (
+      await octokit.rest.issues.updateComment({
+        owner: repoContext.repo.owner,
+        repo: repoContext.repo.repo,
+        comment_id: existing.id,
+        body,
+      })
+    ).data;
+  }
+  return (
+    await octokit.rest.issues.createComment({
+      owner: repoContext.repo.owner,
+      repo: repoContext.repo.repo,
+      issue_number: pullRequestNumber,
+      body,
+    })
+  ).data;
+}
+
+export type ChangelogPullRequestOptions = {
+  path: string;
+  tag: string;
+  entry: ChangelogEntry;
+  /** Defaults to the repository's default branch. */
+  baseBranch?: string;
+};
+
+export function changelogBranchName(tag: string): string {
+  return `release-notes-scribe/changelog-${tag.replace(/[^A-Za-z0-9._/@-]+/g, "-")}`;
+}
+
+async function getBranchSha(
+  octokit: OctokitLike,
+  repoContext: RepoContext,
+  branch: string
+): Promise<string | null> {
+  try {
+    const ref = await octokit.rest.git.getRef({
+      owner: repoContext.repo.owner,
+      repo: repoContext.repo.repo,
+      ref: `heads/${branch}`,
+    });
+    return ref.data.object.sha;
+  } catch (error) {
+    if (isNotFoundError(error)) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+async function getFileContent(
+  octokit: OctokitLike,
+  repoContext: RepoContext,
+  path: string,
+  ref: string
+): Promise<{ text: string; sha?: string }> {
+  try {
+    const response = await octokit.rest.repos.getContent({
+      owner: repoContext.repo.owner,
+      repo: repoContext.repo.repo,
+      path,
+      ref,
+    });
+    if (Array.isArray(response.data) || response.data.type !== "file") {
+      throw new Error(`${path} is not a file.`);
+    }
+    const text = Buffer.from(
+      response.data.content ?? "",
+      response.data.encoding === "base64" ? "base64" : "utf8"
+    ).toString("utf8");
+    return { text, sha: response.data.sha };
+  } catch (error) {
+    if (isNotFoundError(error)) {
+      return { text: "" };
+    }
+    throw error;
+  }
+}
+
+/**
+ * Commits the changelog section for a tag to a dedicated branch and opens or
+ * updates its pull request. A branch left by an earlier run for the same tag
+ * is reused, so edits pushed to it are kept and only the tag's section is
+ * replaced. Returns null when the changelog is already up to date and no pull
+ * request is open.
+ */
+export async function writeChangelogPullRequest(
+  octokit: OctokitLike,
+  repoContext: RepoContext,
+  options: ChangelogPullRequestOptions,
+  logger: Logger
+): Promise<PullRequestData | null> {
+  const owner = repoContext.repo.owner;
+  const repo = repoContext.repo.repo;
+  const base =
+    options.baseBranch ||
+    (await octokit.rest.repos.get({ owner, repo })).data.default_branch;
+  const branch = changelogBranchName(options.tag);
+
+  if (!(await getBranchSha(octokit, repoContext, branch))) {
+    const baseSha = await getBranchSha(octokit, repoContext, base);
+    if (!baseSha) {
+      throw new Error(`Changelog base branch ${base} not found.`);
+    }
+    await octokit.rest.git.createRef({
+      owner,
+      repo,
+      ref: `refs/heads/${branch}`,
+      sha: baseSha,
+    });
+    logger.info(`Created branch ${branch} from ${base}.`);
+  }
+
+  const title = `docs(changelog): release notes for ${options.tag}`;
+  const current = await getFileContent(octokit, repoContext, options.path, branch);
+  const updated = updateChangelog(current.text, options.entry);
+  if (updated !== current.text) {
+    await octokit.rest.repos.createOrUpdateFileContents({
+      owner,
+      repo,
+      path: options.path,
+      message: title,
+      content: Buffer.from(updated, "utf8").toString("base64"),
+      branch,
+      ...(current.sha ? { sha: current.sha } : {}),
+    });
+  }
+
+  const body = [
+    `Updates \`${options.path}\` with the generated release notes for ${options.tag}.`,
+    "",
+    "Edit the notes on this branch before merging; reruns for the same tag only replace its section.",
+  ].join("\n");
+  const open = await octokit.rest.pulls.list({
+    owner,
+    repo,
+    head: `${owner}:${branch}`,
+    base,
+    state: "open",
+  });
+  if (open.data.length) {
+    return (
+      await octokit.rest.pulls.update({
+        owner,
+        repo,
+        pull_number: open.data[0].number,
+        title,
+        body,
+      })
+    ).data;
+  }
+  if (updated === current.text) {
+    logger.info(`${options.path} on ${branch} is already up to date.`);
+    return null;
+  }
+  return (
+    await octokit.rest.pulls.create({ owner, repo, title, head: branch, base, body })
+  ).data;
+}
+
+function toPullRequestInfo(pullRequest: AssociatedPullRequest): PullRequestInfo {
+  const body = pullRequest.body ?? "";
+  return {
+    number: pullRequest.number,
+    title: pullRequest.title,
+    body:
+      body.length > MAX_PULL_REQUEST_BODY_LENGTH
+        ? `${body.slice(0, MAX_PULL_REQUEST_BODY_LENGTH - 3)}...`
+        : body,
+    labels: pullRequest.labels
+      .map((label) => (typeof label === "string" ? label : label.name ?? ""))
+      .filter(Boolean),
+    author: pullRequest.user?.login ?? null,
+  };
+}
+
+export async function attachPullRequests(
+  octokit: OctokitLike,
+  repoContext: RepoContext,
+  commits: CommitData[],
+  logger: Logger
+): Promise<CommitData[]> {
+  const results: CommitData[] = [];
+  let lookupFailed = false;
+
+  for (const commit of commits) {
+    if (lookupFailed) {
+      results.push(commit);
+      continue;
+    }
+    try {
+      const response =
+        await octokit.rest.repos.listPullRequestsAssociatedWithCommit({
+          owner: repoContext.repo.owner,
+          repo: repoContext.repo.repo,
+          commit_sha: commit.sha,
+        });
+      const pullRequest =
+        response.data.find((candidate) => candidate.merged_at) ??
+        response.data[0];
+      results.push({
+        ...commit,
+        pullRequest: pullRequest ? toPullRequestInfo(pullRequest) : null,
+      });
+    } catch (error) {
+      lookupFailed = true;
+      logger.warning(
+        `Failed to look up pull requests for ${commit.sha.slice(0, 7)}; continuing without pull request context: ${error}`
+      );
+      results.push(commit);
+    }
+  }
+
+  return results;
+}
+
+export async function resolveContributorLogins(
+  octokit: OctokitLike,
+  repoContext: RepoContext,
+  contributors: Contributor[],
+  logger: Logger
+): Promise<Contributor[]> {
+  const results: Contributor[] = [];
+  let lookupFailed = false;
+
+  for (const contributor of contributors) {
+    if (contributor.login || !contributor.firstSha || lookupFailed) {
+      results.push(contributor);
+      continue;
+    }
+    try {
+      const response = await octokit.rest.repos.getCommit({
+        owner: repoContext.repo.owner,
+        repo: repoContext.repo.repo,
+        ref: contributor.firstSha,
+      });
+      results.push({
+        ...contributor,
+        login: response.data.author?.login ?? null,
+      });
+    } catch (error) {
+      lookupFailed = true;
+      logger.warning(
+        `Failed to resolve GitHub handles for contributors; using git author names: ${error}`
+      );
+      results.push(contributor);
+    }
+  }
+
+  return results;
+}
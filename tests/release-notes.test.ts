@@ -1,21 +1,57 @@
 import { execFileSync } from "node:child_process";
-import { readFileSync, mkdtempSync, writeFileSync } from "node:fs";
+import { mkdirSync, mkdtempSync, readFileSync, writeFileSync } from "node:fs";
 import { tmpdir } from "node:os";
 import { join } from "node:path";
 import { describe, expect, it } from "vitest";
 import { parse } from "yaml";
 
+import { runCli } from "../src/cli";
+import {
+  createTokenCounter,
+  generateReleaseNotes,
+  tokenEncodingForModel,
+} from "../src/generate";
 import { runAction, type ActionDependencies } from "../src/index";
 import {
   buildCommitData,
   buildPrompt,
+  bumpVersionTag,
+  detectBreakingChanges,
+  changelogVersionLabel,
+  diffTextLines,
+  ensureBreakingChangesSection,
   extractResponseText,
+  formatChangelogSection,
+  formatContributorsSection,
   getCommitShas,
+  getContributors,
   getTagFromRef,
+  isPrereleaseTag,
+  parseConventionalCommit,
+  parseConventionalSections,
+  parseStructuredReleaseNotes,
+  parseTagPattern,
+  recommendVersionBump,
   REDACTION_PLACEHOLDER,
   redactPossibleSecrets,
+  renderPromptTemplate,
+  renderStructuredReleaseNotes,
+  renderTemplateReleaseNotes,
+  TEMPLATE_NOTES_NOTICE,
+  validatePromptTemplate,
+  verifyReleaseNoteSources,
+  verifyStructuredReleaseNoteSources,
+  resolveLatestTag,
   resolvePreviousTag,
+  updateChangelog,
 } from "../src/lib";
+import {
+  GENERATED_END_MARKER,
+  GENERATED_START_MARKER,
+  mergeReleaseBody,
+  writeRelease,
+  writeUnreleasedDraft,
+} from "../src/release";
 
 const root = process.cwd();
 
@@ -52,6 +88,25 @@ function commitFile(
   });
 }
 
+function commitAs(
+  repo: string,
+  author: string,
+  filename: string,
+  message: string
+): void {
+  writeFileSync(join(repo, filename), message);
+  execFileSync("git", ["add", filename], { cwd: repo });
+  const [name, email] = author.split(" <");
+  execFileSync("git", ["commit", "-m", message], {
+    cwd: repo,
+    env: {
+      ...process.env,
+      GIT_AUTHOR_NAME: name,
+      GIT_AUTHOR_EMAIL: email.replace(">", ""),
+    },
+  });
+}
+
 function createTag(repo: string, tag: string, sequence: number): void {
   const date = new Date(Date.UTC(2020, 0, 2, 0, 0, sequence)).toISOString();
   execFileSync("git", ["tag", "-a", tag, "-m", tag], {
@@ -99,8 +154,9 @@ async function withRepo<T>(fn: (repo: string) => T | Promise<T>): Promise<T> {
 
 type MockRelease = {
   id: number;
-  html_url: string;
+  html_url?: string;
   draft: boolean;
+  body?: string;
 };
 
 function makeCore(inputs: Record<string, string> = {}) {
@@ -125,33 +181,220 @@ function makeCore(inputs: Record<string, string> = {}) {
   };
 }
 
-function makeOpenAIClient() {
+function makeFlakyOpenAIClient(failures: Record<string, unknown[]>) {
+  const calls: Array<{ model: string; signal?: AbortSignal }> = [];
+  return {
+    calls,
+    client: {
+      responses: {
+        create: async (
+          args: { model: string },
+          options?: { signal?: AbortSignal }
+        ) => {
+          calls.push({ model: args.model, signal: options?.signal });
+          const failure = failures[args.model]?.shift();
+          if (failure === "hang") {
+            return new Promise(() => undefined);
+          }
+          if (failure) {
+            throw failure;
+          }
+          return { output_text: `## What's Changed\n\n- Notes from ${args.model}` };
+        },
+      },
+    },
+  };
+}
+
+function apiError(status: number, headers: Record<string, string> = {}) {
+  return Object.assign(new Error(`${status} error`), { status, headers });
+}
+
+function makeOpenAIClient(outputText?: string) {
   const calls: unknown[] = [];
   return {
     calls,
     client: {
       responses: {
-        create: async (args: unknown) => {
+        create: async (args: {
+          input: string;
+          text?: { format: { name: string } };
+        }) => {
           calls.push(args);
-          return { output_text: "## What's Changed\n\n- Generated notes" };
+          if (args.text?.format.name === "version_bump") {
+            return {
+              output_text: JSON.stringify({
+                bump: "minor",
+                reason: "Adds a new option.",
+              }),
+            };
+          }
+          const sha = /\b(?:Commit |\()([0-9a-f]{7})\b/.exec(args.input)?.[1];
+          return {
+            output_text:
+              outputText ??
+              `## What's Changed\n\n- Generated notes${sha ? ` (${sha})` : ""}`,
+          };
         },
       },
     },
   };
 }
 
-function makeOctokit(existingRelease?: MockRelease) {
+type MockPullRequest = {
+  number: number;
+  title: string;
+  body?: string | null;
+  labels: Array<{ name?: string }>;
+  user?: { login: string } | null;
+  merged_at?: string | null;
+};
+
+function makeOctokit(
+  existingRelease?: MockRelease,
+  pullRequestsFor: (sha: string) => MockPullRequest[] = () => []
+) {
+  const comments: Array<{ id: number; body: string; html_url: string }> = [];
+  const releases: Array<{
+    id: number;
+    html_url: string;
+    draft: boolean;
+    body: string;
+  }> = [];
+  const branches = new Map([["main", "base-sha"]]);
+  const files = new Map<string, string>();
+  const pulls: Array<{ number: number; html_url: string; head: string }> = [];
   const calls = {
+    createRef: [] as unknown[],
+    createOrUpdateFileContents: [] as unknown[],
+    createPull: [] as unknown[],
+    updatePull: [] as unknown[],
+    listComments: [] as unknown[],
+    createComment: [] as unknown[],
+    updateComment: [] as unknown[],
+    listPullRequestsAssociatedWithCommit: [] as unknown[],
+    getCommit: [] as unknown[],
     getReleaseByTag: [] as unknown[],
+    listReleases: [] as unknown[],
     createRelease: [] as unknown[],
     updateRelease: [] as unknown[],
     generateReleaseNotes: [] as unknown[],
   };
   return {
     calls,
+    comments,
+    releases,
+    branches,
+    files,
     octokit: {
       rest: {
+        git: {
+          getRef: async (args: { ref: string }) => {
+            const sha = branches.get(args.ref.replace(/^heads\//, ""));
+            if (!sha) {
+              const error = new Error("Not Found") as Error & { status: number };
+              error.status = 404;
+              throw error;
+            }
+            return { data: { object: { sha } } };
+          },
+          createRef: async (args: { ref: string; sha: string }) => {
+            calls.createRef.push(args);
+            const branch = args.ref.replace(/^refs\/heads\//, "");
+            branches.set(branch, args.sha);
+            for (const [key, text] of [...files]) {
+              if (key.startsWith("main:")) {
+                files.set(`${branch}:${key.slice(5)}`, text);
+              }
+            }
+            return { data: {} };
+          },
+        },
+        pulls: {
+          list: async (args: { head: string }) => ({
+            data: pulls.filter(({ head }) => args.head === `acme:${head}`),
+          }),
+          create: async (args: { head: string }) => {
+            calls.createPull.push(args);
+            const pull = {
+              number: 40 + pulls.length,
+              html_url: `https://github.com/acme/widgets/pull/${40 + pulls.length}`,
+              head: args.head,
+            };
+            pulls.push(pull);
+            return { data: pull };
+          },
+          update: async (args: { pull_number: number }) => {
+            calls.updatePull.push(args);
+            const pull = pulls.find(({ number }) => number === args.pull_number);
+            return { data: pull };
+          },
+        },
+        issues: {
+          listComments: async (args: unknown) => {
+            calls.listComments.push(args);
+            return { data: [...comments] };
+          },
+          createComment: async (args: { body: string }) => {
+            calls.createComment.push(args);
+            const comment = {
+              id: comments.length + 1,
+              body: args.body,
+              html_url: `https://github.com/acme/widgets/pull/7#issuecomment-${comments.length + 1}`,
+            };
+            comments.push(comment);
+            return { data: comment };
+          },
+          updateComment: async (args: { comment_id: number; body: string }) => {
+            calls.updateComment.push(args);
+            const comment = comments.find(({ id }) => id === args.comment_id);
+            if (!comment) {
+              throw new Error(`Comment ${args.comment_id} not found.`);
+            }
+            comment.body = args.body;
+            return { data: comment };
+          },
+        },
         repos: {
+          get: async () => ({ data: { default_branch: "main" } }),
+          getContent: async (args: { path: string; ref: string }) => {
+            const text = files.get(`${args.ref}:${args.path}`);
+            if (text === undefined) {
+              const error = new Error("Not Found") as Error & { status: number };
+              error.status = 404;
+              throw error;
+            }
+            return {
+              data: {
+                type: "file",
+                encoding: "base64",
+                content: Buffer.from(text).toString("base64"),
+                sha: `blob-${text.length}`,
+              },
+            };
+          },
+          createOrUpdateFileContents: async (args: {
+            path: string;
+            branch: string;
+            content: string;
+          }) => {
+            calls.createOrUpdateFileContents.push(args);
+            files.set(
+              `${args.branch}:${args.path}`,
+              Buffer.from(args.content, "base64").toString("utf8")
+            );
+            return { data: {} };
+          },
+          listPullRequestsAssociatedWithCommit: async (args: {
+            commit_sha: string;
+          }) => {
+            calls.listPullRequestsAssociatedWithCommit.push(args);
+            return { data: pullRequestsFor(args.commit_sha) };
+          },
+          getCommit: async (args: unknown) => {
+            calls.getCommit.push(args);
+            return { data: { author: { login: "scribe-bot" } } };
+          },
           generateReleaseNotes: async (args: unknown) => {
             calls.generateReleaseNotes.push(args);
             return { data: { body: "GitHub notes" } };
@@ -165,18 +408,32 @@ function makeOctokit(existingRelease?: MockRelease) {
             }
             return { data: existingRelease };
           },
-          createRelease: async (args: unknown) => {
+          listReleases: async (args: unknown) => {
+            calls.listReleases.push(args);
+            return { data: [...releases] };
+          },
+          createRelease: async (args: { body: string; draft: boolean }) => {
             calls.createRelease.push(args);
-            return {
-              data: {
-                id: 1,
-                html_url: "https://github.com/acme/widgets/releases/tag/v1.1.0",
-                draft: true,
-              },
+            const release = {
+              id: releases.length + 1,
+              html_url: "https://github.com/acme/widgets/releases/tag/v1.1.0",
+              draft: args.draft,
+              body: args.body,
             };
+            releases.push(release);
+            return { data: release };
           },
-          updateRelease: async (args: unknown) => {
+          updateRelease: async (args: {
+            release_id: number;
+            body: string;
+            draft: boolean;
+          }) => {
             calls.updateRelease.push(args);
+            const release = releases.find(({ id }) => id === args.release_id);
+            if (release) {
+              Object.assign(release, { body: args.body, draft: args.draft });
+              return { data: release };
+            }
             return {
               data: {
                 id: existingRelease?.id ?? 1,
@@ -194,7 +451,9 @@ function makeOctokit(existingRelease?: MockRelease) {
 async function runMockedAction(
   repo: string,
   inputs: Record<string, string> = {},
-  existingRelease?: MockRelease
+  existingRelease?: MockRelease,
+  pullRequestsFor?: (sha: string) => MockPullRequest[],
+  openAI = makeOpenAIClient()
 ) {
   const coreMock = makeCore({
     openai_api_key: "openai-key",
@@ -202,8 +461,7 @@ async function runMockedAction(
     tag: "v1.1.0",
     ...inputs,
   });
-  const openAI = makeOpenAIClient();
-  const github = makeOctokit(existingRelease);
+  const github = makeOctokit(existingRelease, pullRequestsFor);
 
   await runAction({
     core: coreMock.core,
@@ -223,6 +481,26 @@ async function runMockedAction(
   return { coreMock, openAI, github };
 }
 
+async function runMockedCli(
+  args: string[],
+  env: Record<string, string> = { OPENAI_API_KEY: "openai-key" }
+) {
+  const stdout: string[] = [];
+  const stderr: string[] = [];
+  const openAI = makeOpenAIClient();
+  const github = makeOctokit();
+
+  await runCli(args, {
+    env,
+    stdout: (text) => stdout.push(text),
+    stderr: (text) => stderr.push(text),
+    getOctokit: () => github.octokit,
+    createOpenAIClient: () => openAI.client,
+  });
+
+  return { stdout: stdout.join(""), stderr: stderr.join(""), openAI, github };
+}
+
 function openAIInput(openAI: ReturnType<typeof makeOpenAIClient>): string {
   return (openAI.calls[0] as { input: string }).input;
 }
@@ -273,6 +551,120 @@ describe.sequential("release notes helpers", () => {
       expect(previous).toBe("v1.0.0");
     }));
 
+  it("resolves the latest release tag reachable from HEAD", async () =>
+    withRepo((repo) => {
+      commitFile(repo, "file.txt", "one", "feat: first", 1);
+      createTag(repo, "v1.0.0", 1);
+      commitFile(repo, "file.txt", "two", "feat: second", 2);
+      createTag(repo, "v1.1.0", 2);
+      execFileSync("git", ["checkout", "-q", "-b", "next"], { cwd: repo });
+      commitFile(repo, "file.txt", "next", "feat: next", 3);
+      createTag(repo, "v2.0.0", 3);
+      execFileSync("git", ["checkout", "-q", "-"], { cwd: repo });
+      commitFile(repo, "file.txt", "three", "feat: third", 4);
+      createTag(repo, "v1", 4);
+
+      expect(resolveLatestTag("HEAD")).toBe("v1.1.0");
+    }));
+
+  it("resolves previous tags with a tag pattern and version scheme", async () =>
+    withRepo((repo) => {
+      commitFile(repo, "file.txt", "one", "feat: first", 1);
+      createTag(repo, "release-2024.9.0", 1);
+      createTag(repo, "1.2.3", 2);
+      commitFile(repo, "file.txt", "two", "feat: second", 2);
+      createTag(repo, "release-2024.10.1", 3);
+      commitFile(repo, "file.txt", "three", "feat: third", 3);
+      createTag(repo, "release-2024.10.2", 4);
+      execFileSync("git", ["tag", "release-2025.1.0", "HEAD~2"], { cwd: repo });
+      const info: string[] = [];
+      const logger = { info: (message: string) => info.push(message), warning: () => {} };
+
+      expect(
+        resolvePreviousTag("release-2024.10.2", "", logger, {
+          tagPattern: parseTagPattern("release-*"),
+          versionScheme: "calver",
+        })
+      ).toBe("release-2024.10.1");
+      expect(info[0]).toContain(
+        "Previous tag candidates for release-2024.10.2: release-2024.10.1, release-2024.9.0."
+      );
+      expect(info[0]).toContain("Rejected 1 not matching tag_pattern ^release-.*$ (calver): 1.2.3.");
+      expect(info[0]).toContain("Rejected 1 not older than 2024.10.2: release-2025.1.0.");
+      createTag(repo, "1.3.0", 5);
+      expect(
+        resolvePreviousTag("1.3.0", "", undefined, {
+          tagPattern: parseTagPattern("/^\\d+\\.\\d+\\.\\d+$/"),
+        })
+      ).toBe("1.2.3");
+      expect(() =>
+        resolvePreviousTag("release-2024.10.2", "", undefined, {
+          versionScheme: "custom",
+        })
+      ).toThrow("version_scheme custom requires tag_pattern.");
+      expect(() => parseTagPattern("/[/")).toThrow(
+        "tag_pattern /[/ is not a valid regular expression"
+      );
+    }));
+
+  it("compares stable tags to the previous stable release and RCs to the prior RC", async () =>
+    withRepo((repo) => {
+      commitFile(repo, "file.txt", "one", "feat: first", 1);
+      createTag(repo, "v1.9.0", 1);
+      commitFile(repo, "file.txt", "two", "feat: second", 2);
+      createTag(repo, "v2.0.0-rc.1", 2);
+      commitFile(repo, "file.txt", "three", "fix: third", 3);
+      createTag(repo, "v2.0.0-rc.2", 3);
+      commitFile(repo, "file.txt", "four", "fix: fourth", 4);
+      createTag(repo, "v2.0.0", 4);
+
+      expect(resolvePreviousTag("v2.0.0", "")).toBe("v1.9.0");
+      expect(
+        resolvePreviousTag("v2.0.0", "", undefined, { compareStableTo: "nearest" })
+      ).toBe("v2.0.0-rc.2");
+      expect(resolvePreviousTag("v2.0.0-rc.2", "")).toBe("v2.0.0-rc.1");
+      expect(resolvePreviousTag("v2.0.0-rc.1", "")).toBe("v1.9.0");
+      expect(isPrereleaseTag("v2.0.0-rc.2")).toBe(true);
+      expect(isPrereleaseTag("v2.0.0")).toBe(false);
+    }));
+
+  it("prefers tags on the same release line over merged maintenance tags", async () =>
+    withRepo((repo) => {
+      const git = (...args: string[]) => execFileSync("git", args, { cwd: repo });
+      commitFile(repo, "file.txt", "one", "feat: first", 1);
+      createTag(repo, "v1.9.0", 1);
+      git("checkout", "-q", "-b", "maint");
+      commitFile(repo, "maint.txt", "one", "fix: backport one", 2);
+      commitFile(repo, "maint.txt", "two", "fix: backport two", 3);
+      createTag(repo, "v1.9.1", 2);
+      git("checkout", "-q", "-");
+      commitFile(repo, "file.txt", "two", "feat!: second", 4);
+      createTag(repo, "v2.0.0", 3);
+      git("merge", "-q", "--no-ff", "-m", "Merge maint", "maint");
+      commitFile(repo, "file.txt", "three", "feat: third", 5);
+      createTag(repo, "v2.1.0", 4);
+      git("checkout", "-q", "maint");
+      commitFile(repo, "maint.txt", "three", "fix: backport three", 6);
+      createTag(repo, "v1.9.2", 5);
+      const info: string[] = [];
+      const logger = { info: (message: string) => info.push(message), warning: () => {} };
+
+      expect(
+        resolvePreviousTag("v2.1.0", "", undefined, { releaseLine: "none" })
+      ).toBe("v1.9.1");
+      expect(resolvePreviousTag("v2.1.0", "", logger)).toBe("v2.0.0");
+      expect(info).toContain(
+        "Using v2.0.0, the highest ancestor tag on release line 2.x."
+      );
+      expect(resolvePreviousTag("v1.9.2", "")).toBe("v1.9.1");
+      expect(
+        resolvePreviousTag("v2.1.0", "", logger, { releaseLine: "minor" })
+      ).toBe("v1.9.1");
+      expect(info).toContain(
+        "No ancestor tag on release line 2.1.x; using the nearest ancestor tag."
+      );
+    }));
+
   it("throws when the override tag is missing", async () =>
     withRepo((repo) => {
       commitFile(repo, "file.txt", "one", "feat: first", 1);
@@ -294,6 +686,46 @@ describe.sequential("release notes helpers", () => {
       expect(shas).toHaveLength(1);
     }));
 
+  it("resolves per-package tags and scopes commits to package paths", async () =>
+    withRepo((repo) => {
+      mkdirSync(join(repo, "packages", "core"), { recursive: true });
+      mkdirSync(join(repo, "packages", "web"), { recursive: true });
+      commitFile(repo, "packages/core/index.ts", "export const a = 1;", "feat: core", 1);
+      createTag(repo, "@acme/core@1.0.0", 1);
+      commitFile(repo, "packages/web/index.ts", "export const b = 1;", "feat: web", 2);
+      createTag(repo, "web-v1.0.0", 2);
+      writeFileSync(join(repo, "packages", "web", "index.ts"), "export const b = 2;");
+      execFileSync("git", ["add", "packages/web/index.ts"], { cwd: repo });
+      commitFile(
+        repo,
+        "packages/core/index.ts",
+        "export const a = 2;",
+        "fix: core and web",
+        3
+      );
+      commitFile(repo, "README.md", "docs", "docs: readme", 4);
+      createTag(repo, "@acme/core@1.1.0", 3);
+
+      const previousTag = resolvePreviousTag("@acme/core@1.1.0", "", undefined, {
+        tagPrefix: "@acme/core@",
+      });
+      const shas = getCommitShas(previousTag, "@acme/core@1.1.0", 10, undefined, [
+        "packages/core/",
+      ]);
+      const [commit] = buildCommitData(shas, 20, undefined, undefined, [
+        "packages/core",
+      ]);
+
+      expect(previousTag).toBe("@acme/core@1.0.0");
+      expect(shas).toHaveLength(1);
+      expect(commit.message).toBe("fix: core and web");
+      expect(commit.diffLines.join("\n")).toContain("packages/core/index.ts");
+      expect(commit.diffLines.join("\n")).not.toContain("packages/web");
+      expect(() =>
+        resolvePreviousTag("web-v1.0.0", "", undefined, { tagPrefix: "@acme/core@" })
+      ).toThrow("does not match tag_prefix @acme/core@");
+    }));
+
   it("builds prompts from commit data", async () =>
     withRepo((repo) => {
       commitFile(repo, "file.txt", "one", "feat: first", 1);
@@ -322,6 +754,571 @@ describe.sequential("release notes helpers", () => {
       expect(commits[0].diffLines.join("\n")).not.toContain("+docs");
     }));
 
+  it("parses Conventional Commit headers and breaking footers", () => {
+    expect(parseConventionalCommit("feat(cli): add --out flag")).toEqual({
+      type: "feat",
+      scope: "cli",
+      breaking: false,
+      description: "add --out flag",
+      breakingNotes: [],
+    });
+    expect(parseConventionalCommit("fix!: drop Node 18")).toMatchObject({
+      type: "fix",
+      scope: null,
+      breaking: true,
+    });
+    expect(
+      parseConventionalCommit(
+        "refactor: rename inputs\n\nBody text.\n\nBREAKING CHANGE: max_chars is now\nmax_stage_chars.\nRefs: #12"
+      )
+    ).toMatchObject({
+      breaking: true,
+      breakingNotes: ["max_chars is now max_stage_chars."],
+    });
+    expect(parseConventionalCommit("Update readme")).toBeNull();
+  });
+
+  it("parses custom Conventional Commit section mappings", () => {
+    const sections = parseConventionalSections("feat=New Stuff\nfix: Fixes");
+    expect([...sections.entries()]).toEqual([
+      ["feat", "New Stuff"],
+      ["fix", "Fixes"],
+    ]);
+    expect(() => parseConventionalSections("feat")).toThrow(
+      "Invalid conventional section mapping"
+    );
+  });
+
+  it("groups prompt commits into sections by Conventional Commit type", async () =>
+    withRepo((repo) => {
+      commitFile(repo, "a.ts", "export const a = 1;", "fix(api): handle nulls", 1);
+      commitFile(repo, "b.ts", "export const b = 1;", "feat: add widgets", 2);
+      commitFile(repo, "c.ts", "export const c = 1;", "Tweak build", 3);
+      createTag(repo, "v1.0.0", 1);
+
+      const shas = getCommitShas("", "v1.0.0", 10);
+      const commits = buildCommitData(shas, 50);
+      const prompt = buildPrompt(
+        "v1.0.0",
+        "",
+        commits,
+        "",
+        parseConventionalSections("")
+      );
+
+      expect(commits[0].conventional).toMatchObject({ type: "fix", scope: "api" });
+      expect(prompt).toContain(
+        "Sections (in order): Features, Bug Fixes, Other Changes"
+      );
+      expect(prompt).toContain("Conventional Commit: fix(api)");
+      expect(prompt.indexOf("Section: Features")).toBeLessThan(
+        prompt.indexOf("Section: Bug Fixes")
+      );
+      expect(prompt.indexOf("feat: add widgets")).toBeLessThan(
+        prompt.indexOf("Section: Bug Fixes")
+      );
+      expect(prompt.indexOf("Tweak build")).toBeGreaterThan(
+        prompt.indexOf("Section: Other Changes")
+      );
+    }));
+
+  it("detects breaking changes from markers, removed exports, and deleted files", async () =>
+    withRepo((repo) => {
+      mkdirSync(join(repo, "src"));
+      mkdirSync(join(repo, "tests"));
+      writeFileSync(join(repo, "src", "old.ts"), "export function legacy() {}\n");
+      writeFileSync(join(repo, "tests", "old.test.ts"), "export const t = 1;\n");
+      commitFile(
+        repo,
+        "src/api.ts",
+        "export function keep() {}\nexport function drop() {}\n",
+        "feat: initial api",
+        1
+      );
+      execFileSync("git", ["add", "-A"], { cwd: repo });
+      execFileSync("git", ["commit", "--amend", "--no-edit"], { cwd: repo });
+      createTag(repo, "v1.0.0", 1);
+      commitFile(
+        repo,
+        "src/api.ts",
+        "export function keep(value: string) {}\n",
+        "refactor(api): simplify\n\nBREAKING CHANGE: drop() was removed.",
+        2
+      );
+      execFileSync("git", ["rm", "-q", "src/old.ts", "tests/old.test.ts"], {
+        cwd: repo,
+      });
+      execFileSync("git", ["commit", "-m", "feat!: remove legacy module"], {
+        cwd: repo,
+      });
+      createTag(repo, "v2.0.0", 2);
+
+      const commits = buildCommitData(getCommitShas("v1.0.0", "v2.0.0", 10), 50);
+
+      expect(commits[0].breakingChanges.map((change) => change.reason)).toEqual([
+        "breaking-footer",
+        "removed-export",
+      ]);
+      expect(commits[0].breakingChanges[1].summary).toBe(
+        "Removed export drop from src/api.ts"
+      );
+      expect(commits[0].breakingChanges[1].evidence[0]).toContain(
+        "src/api.ts: -export function drop()"
+      );
+      expect(commits[1].breakingChanges.map((change) => change.summary)).toEqual([
+        "remove legacy module",
+        "Deleted public file src/old.ts",
+      ]);
+      expect(buildPrompt("v2.0.0", "v1.0.0", commits, "")).toContain(
+        "Breaking changes detected (4):"
+      );
+    }));
+
+  it("does not report moved exports or deleted files without exports as breaking", () => {
+    const diff = [
+      "diff --git a/src/a.ts b/src/a.ts",
+      "--- a/src/a.ts",
+      "+++ b/src/a.ts",
+      "-export function helper() {}",
+      "diff --git a/src/b.ts b/src/b.ts",
+      "--- a/src/b.ts",
+      "+++ b/src/b.ts",
+      "+export function helper() {}",
+      "diff --git a/scripts/old.sh b/scripts/old.sh",
+      "--- a/scripts/old.sh",
+      "+++ /dev/null",
+      "-echo old",
+    ].join("\n");
+
+    expect(
+      detectBreakingChanges(
+        null,
+        diff,
+        [
+          { path: "src/a.ts", isSource: true, isDeleted: false },
+          { path: "src/b.ts", isSource: true, isDeleted: false },
+          { path: "scripts/old.sh", isSource: true, isDeleted: true },
+        ],
+        []
+      )
+    ).toEqual([]);
+  });
+
+  it("keeps a Breaking Changes section at the top of the notes", () => {
+    const commit = {
+      sha: "abcdef1234567",
+      message: "feat!: drop v1",
+      diffLines: [],
+      conventional: null,
+      breakingChanges: [
+        { reason: "conventional-marker" as const, summary: "drop v1", evidence: [] },
+      ],
+    };
+
+    expect(
+      ensureBreakingChangesSection(
+        "## What's Changed\n\n- Added things\n\n### Breaking Changes\n\n- Dropped v1 (abcdef1). Migration: use v2.",
+        [commit]
+      )
+    ).toBe(
+      "## Breaking Changes\n\n- Dropped v1 (abcdef1). Migration: use v2.\n\n## What's Changed\n\n- Added things"
+    );
+    expect(
+      ensureBreakingChangesSection(
+        "## Breaking Changes\n\n- Renamed the CLI (1234567).\n\n## What's Changed\n\n- Added things",
+        [commit]
+      )
+    ).toBe(
+      "## Breaking Changes\n\n- Renamed the CLI (1234567).\n- drop v1 (abcdef1). Migration: no diff lines were captured for this change; check the commit before upgrading.\n\n## What's Changed\n\n- Added things"
+    );
+    expect(
+      ensureBreakingChangesSection(
+        "## What's Changed\n\n- Added things\n\n### No breaking changes\n\nNone.",
+        [commit]
+      )
+    ).toMatch(
+      /^## Breaking Changes\n\n- drop v1 \(abcdef1\)\. Migration:[^\n]*\n\n## What's Changed\n\n- Added things\n\n### No breaking changes/
+    );
+    expect(
+      ensureBreakingChangesSection("## What's Changed\n\n- Added things", [
+        {
+          ...commit,
+          breakingChanges: [
+            {
+              reason: "removed-export" as const,
+              summary: "Removed export drop from src/api.ts",
+              evidence: [
+                "src/api.ts: -export function drop() {}",
+                "src/api.ts: +export function remove() {}",
+              ],
+            },
+            {
+              reason: "deleted-file" as const,
+              summary: "Deleted public file src/old.ts",
+              evidence: ["src/old.ts: -export function legacy() {}"],
+            },
+          ],
+        },
+      ])
+    ).toBe(
+      [
+        "## Breaking Changes",
+        "",
+        "- Removed export drop from src/api.ts (abcdef1). Migration: `drop` is no longer exported from src/api.ts; the same change declares `remove`.",
+        "- Deleted public file src/old.ts (abcdef1). Migration: src/old.ts was deleted; stop importing `legacy`.",
+        "",
+        "## What's Changed",
+        "",
+        "- Added things",
+      ].join("\n")
+    );
+    expect(
+      ensureBreakingChangesSection("## What's Changed", [
+        { ...commit, breakingChanges: [] },
+      ])
+    ).toBe("## What's Changed");
+  });
+
+  it("recommends a version bump from commit evidence", () => {
+    const commit = (sha: string, message: string, breaking = false) => ({
+      sha,
+      message,
+      diffLines: [],
+      conventional: parseConventionalCommit(message),
+      breakingChanges: breaking
+        ? [{ reason: "conventional-marker" as const, summary: "drop v1", evidence: [] }]
+        : [],
+      pullRequest: null,
+    });
+    const fix = commit("aaaaaaa1", "fix: handle empty tags");
+    const feat = commit("bbbbbbb2", "feat: add paths\n\nDetails");
+    const breaking = commit("ccccccc3", "feat!: drop v1", true);
+
+    expect(recommendVersionBump("v1.2.3", [fix])).toEqual({
+      bump: "patch",
+      version: "v1.2.4",
+      reasons: ["aaaaaaa fix: handle empty tags (fix or other change)"],
+    });
+    expect(recommendVersionBump("pkg-v1.2.3", [fix, feat])).toEqual({
+      bump: "minor",
+      version: "pkg-v1.3.0",
+      reasons: ["bbbbbbb feat: add paths (feature)"],
+    });
+    expect(recommendVersionBump("v1.2.3", [fix, feat, breaking])).toEqual({
+      bump: "major",
+      version: "v2.0.0",
+      reasons: ["ccccccc feat!: drop v1 (breaking: drop v1)"],
+    });
+    expect(recommendVersionBump("v0.4.1", [breaking]).version).toBe("v0.5.0");
+    expect(recommendVersionBump("", [fix]).version).toBe("");
+    expect(bumpVersionTag("v2.0.0-rc.1", "major")).toBe("v2.0.0");
+    expect(bumpVersionTag("v2.1.0-rc.1", "major")).toBe("v3.0.0");
+    expect(bumpVersionTag("v2.1.0-rc.1", "patch")).toBe("v2.1.0");
+  });
+
+  it("renders release notes as a Keep a Changelog section", () => {
+    expect(changelogVersionLabel("v1.2.0")).toBe("1.2.0");
+    expect(changelogVersionLabel("@scope/pkg@1.2.0")).toBe("1.2.0");
+    expect(
+      formatChangelogSection({
+        label: "1.2.0",
+        date: "2026-10-19",
+        compareUrl: "https://github.com/acme/widgets/compare/v1.1.0...v1.2.0",
+        notes:
+          "## Breaking Changes\n\n- Dropped v1.\n\n## What's Changed\n\n### Added\n\n- Paths (abc1234)\n\n## Contributors\n\n- @octo\n\n### First-time Contributors\n\n- @newbie",
+      })
+    ).toBe(
+      "## [1.2.0](https://github.com/acme/widgets/compare/v1.1.0...v1.2.0) - 2026-10-19\n\n### Breaking Changes\n\n- Dropped v1.\n\n### Added\n\n- Paths (abc1234)\n\n### Contributors\n\n- @octo\n\n#### First-time Contributors\n\n- @newbie"
+    );
+    expect(
+      formatChangelogSection({
+        label: "Unreleased",
+        date: "2026-10-19",
+        compareUrl: "",
+        notes: "## What's Changed\n\n- Fixed tags (abc1234)",
+      })
+    ).toBe("## [Unreleased]\n\n### Changed\n\n- Fixed tags (abc1234)");
+  });
+
+  it("updates a changelog idempotently without touching other sections", () => {
+    const entry = (label: string, notes: string) => ({
+      label,
+      date: "2026-10-19",
+      compareUrl: "",
+      notes: `## What's Changed\n\n### Fixed\n\n${notes}`,
+    });
+    const existing = [
+      "# Changelog",
+      "",
+      "Hand-written intro.",
+      "",
+      "## [Unreleased]",
+      "",
+      "## [1.0.0] - 2026-01-01",
+      "",
+      "### Added",
+      "",
+      "-  Kept   exactly.",
+      "",
+      "[1.0.0]: https://github.com/acme/widgets/releases/tag/v1.0.0",
+      "",
+    ].join("\n");
+
+    const inserted = updateChangelog(existing, entry("1.1.0", "- First (abc1234)"));
+    const rerun = updateChangelog(inserted, entry("1.1.0", "- Second (abc1234)"));
+
+    expect(inserted).toBe(
+      existing.replace(
+        "## [1.0.0]",
+        "## [1.1.0] - 2026-10-19\n\n### Fixed\n\n- First (abc1234)\n\n## [1.0.0]"
+      )
+    );
+    expect(rerun).toBe(inserted.replace("- First", "- Second"));
+    expect(updateChangelog(rerun, entry("Unreleased", "- Next (def5678)"))).toBe(
+      rerun.replace(
+        "## [Unreleased]\n",
+        "## [Unreleased]\n\n### Fixed\n\n- Next (def5678)\n"
+      )
+    );
+    expect(updateChangelog("", entry("1.0.0", "- One (abc1234)"))).toMatch(
+      /^# Changelog\n\n[\s\S]*Keep a Changelog[\s\S]*\n\n## \[1\.0\.0\] - 2026-10-19\n\n### Fixed\n\n- One \(abc1234\)\n$/
+    );
+  });
+
+  it("empties the Unreleased changelog section when the tag is released", () => {
+    const entry = (label: string, notes: string) => ({
+      label,
+      date: "2026-10-19",
+      compareUrl: "",
+      notes: `## What's Changed\n\n### Fixed\n\n${notes}`,
+    });
+    const unreleased = updateChangelog(
+      "# Changelog\n\n## [1.0.0] - 2026-01-01\n\n- Old.\n",
+      entry("Unreleased", "- Next (def5678)")
+    );
+    const released = updateChangelog(unreleased, entry("1.1.0", "- Next (def5678)"));
+
+    expect(unreleased).toContain("## [Unreleased]\n\n### Fixed\n\n- Next (def5678)");
+    expect(released).toBe(
+      [
+        "# Changelog",
+        "",
+        "## [Unreleased]",
+        "",
+        "## [1.1.0] - 2026-10-19",
+        "",
+        "### Fixed",
+        "",
+        "- Next (def5678)",
+        "",
+        "## [1.0.0] - 2026-01-01",
+        "",
+        "- Old.",
+        "",
+      ].join("\n")
+    );
+  });
+
+  it("groups template notes by top-level directory without conventional commits", () => {
+    const commit = (sha: string, message: string, files: string[]) => ({
+      sha,
+      message,
+      diffLines: [],
+      files,
+      conventional: null,
+      breakingChanges: [],
+      pullRequest: null,
+    });
+
+    expect(
+      renderTemplateReleaseNotes([
+        commit("aaaaaaa1", "Tune parser", ["src/a.ts", "src/b.ts", "docs/a.md"]),
+        commit("bbbbbbb2", "Update readme", ["README.md"]),
+        {
+          ...commit("ccccccc3", "Write guide\n\nBody", ["docs/guide.md"]),
+          pullRequest: { number: 9, title: "", body: "", labels: [], author: null },
+        },
+      ])
+    ).toBe(
+      [
+        "## What's Changed",
+        "",
+        TEMPLATE_NOTES_NOTICE,
+        "",
+        "### docs",
+        "",
+        "- Write guide (ccccccc) #9",
+        "",
+        "### Repository Root",
+        "",
+        "- Update readme (bbbbbbb)",
+        "",
+        "### src",
+        "",
+        "- Tune parser (aaaaaaa)",
+      ].join("\n")
+    );
+  });
+
+  it("collects contributors and first-time contributors from git", async () =>
+    withRepo((repo) => {
+      commitFile(repo, "file.txt", "one", "feat: first", 1);
+      createTag(repo, "v1.0.0", 1);
+      commitAs(
+        repo,
+        "Alice Example <alice@example.com>",
+        "a.txt",
+        "feat: alice\n\nCo-authored-by: Bob <12+bob@users.noreply.github.com>"
+      );
+      commitFile(repo, "file.txt", "two", "fix: scribe", 2);
+      createTag(repo, "v1.1.0", 2);
+
+      const contributors = getContributors("v1.0.0", "v1.1.0");
+
+      expect(contributors).toMatchObject([
+        { name: "Alice Example", login: null, firstTime: true },
+        { name: "Bob", login: "bob", firstTime: true, firstSha: "" },
+        { name: "Release Notes Scribe", firstTime: false },
+      ]);
+      expect(formatContributorsSection(contributors)).toBe(
+        [
+          "## Contributors",
+          "",
+          "Alice Example, @bob, Release Notes Scribe",
+          "",
+          "### First-time Contributors",
+          "",
+          "- Alice Example",
+          "- @bob",
+        ].join("\n")
+      );
+      expect(getContributors("", "v1.1.0").some((c) => c.firstTime)).toBe(false);
+    }));
+
+  it("validates and renders prompt template variables", () => {
+    const template = "Notes for {{ repo }} {{tag}} since {{previous_tag}}.";
+
+    expect(() => validatePromptTemplate(template, "final_prompt_file")).not.toThrow();
+    expect(
+      renderPromptTemplate(template, {
+        tag: "v1.1.0",
+        previous_tag: "v1.0.0",
+        repo: "acme/widgets",
+        commit_count: "3",
+        date: "2020-01-02",
+      })
+    ).toBe("Notes for acme/widgets v1.1.0 since v1.0.0.");
+    expect(() =>
+      validatePromptTemplate("{{tag}} {{product}} {{ product }}", "final_prompt_file x.md")
+    ).toThrow(
+      "final_prompt_file x.md uses unknown template variable(s): {{product}}. Supported variables: {{tag}}, {{previous_tag}}, {{repo}}, {{commit_count}}, {{date}}."
+    );
+  });
+
+  it("parses and renders structured release notes", () => {
+    const notes = parseStructuredReleaseNotes(
+      JSON.stringify({
+        sections: [
+          {
+            title: "Breaking Changes",
+            items: [{ summary: "Dropped v1 APIs.", commits: ["abcdef1234567"] }],
+          },
+          {
+            title: "Features",
+            items: [
+              { summary: "Added export.", commits: ["1234567abcdef", "7654321"] },
+            ],
+          },
+          { title: "Bug Fixes", items: [] },
+        ],
+      })
+    );
+
+    expect(renderStructuredReleaseNotes(notes)).toBe(
+      [
+        "## Breaking Changes",
+        "",
+        "- Dropped v1 APIs. (abcdef1)",
+        "",
+        "## What's Changed",
+        "",
+        "### Features",
+        "",
+        "- Added export. (1234567, 7654321)",
+      ].join("\n")
+    );
+    expect(renderStructuredReleaseNotes({ sections: [] })).toBe(
+      "## What's Changed\n\n- No user-facing changes."
+    );
+    expect(() => parseStructuredReleaseNotes("## Notes")).toThrow();
+    expect(() =>
+      parseStructuredReleaseNotes('{"sections": [{"title": "Features"}]}')
+    ).toThrow();
+  });
+
+  it("drops or flags release-note bullets without a source in the range", () => {
+    const sources = { shas: ["abcdef1234567890"], pullRequests: [42] };
+    const notes = [
+      "## What's Changed",
+      "",
+      "### Features",
+      "",
+      "- Added export (abcdef1).",
+      "- Added search (#42).",
+      "",
+      "### Bug Fixes",
+      "",
+      "- Fixed a crash that never shipped (1234567).",
+      "  Affects Windows only.",
+    ].join("\n");
+
+    expect(verifyReleaseNoteSources(notes, sources, "drop")).toEqual({
+      notes: [
+        "## What's Changed",
+        "",
+        "### Features",
+        "",
+        "- Added export (abcdef1).",
+        "- Added search (#42).",
+      ].join("\n"),
+      unsupported: ["Fixed a crash that never shipped (1234567)."],
+    });
+    expect(verifyReleaseNoteSources(notes, sources, "flag").notes).toContain(
+      "- Fixed a crash that never shipped (1234567). (unverified: no matching commit)\n  Affects Windows only."
+    );
+    expect(
+      verifyStructuredReleaseNoteSources(
+        {
+          sections: [
+            {
+              title: "Features",
+              items: [
+                { summary: "Added export.", commits: ["abcdef1", "7654321"] },
+                { summary: "Invented a feature.", commits: ["7654321"] },
+              ],
+            },
+            {
+              title: "Bug Fixes",
+              items: [{ summary: "Phantom fix.", commits: [] }],
+            },
+          ],
+        },
+        sources,
+        "drop"
+      )
+    ).toEqual({
+      notes: {
+        sections: [
+          {
+            title: "Features",
+            items: [{ summary: "Added export.", commits: ["abcdef1"] }],
+          },
+        ],
+      },
+      unsupported: ["Invented a feature.", "Phantom fix."],
+    });
+  });
+
   it("extracts text from Responses API shapes", () => {
     expect(extractResponseText({ output_text: "hello" })).toBe("hello");
     expect(
@@ -390,7 +1387,9 @@ describe.sequential("action orchestration", () => {
       const { coreMock, github, openAI } = await runMockedAction(repo);
 
       expect(openAI.calls).toHaveLength(1);
-      expect(openAIInstructions(openAI)).toBe(readPrompt("final-release.md"));
+      expect(openAIInstructions(openAI)).toBe(
+        `${readPrompt("final-release.md")}\n\n${readPrompt("source-citations.md")}`
+      );
       expect(github.calls.getReleaseByTag).toHaveLength(1);
       expect(github.calls.createRelease).toHaveLength(1);
       expect(github.calls.updateRelease).toHaveLength(0);
@@ -403,6 +1402,24 @@ describe.sequential("action orchestration", () => {
       expect(coreMock.outputs.prompt_char_count).toMatch(/^\d+$/);
       expect(coreMock.outputs.used_batching).toBe("false");
       expect(coreMock.outputs.redaction_count).toBe("0");
+      expect(coreMock.outputs.unsupported_bullet_count).toBe("0");
+    }));
+
+  it("reports breaking changes and leads the notes with them", async () =>
+    withRepo(async (repo) => {
+      commitFile(repo, "file.ts", "export const one = 1;", "feat: first", 1);
+      createTag(repo, "v1.0.0", 1);
+      commitFile(repo, "file.ts", "export const one = 2;", "feat!: change one", 2);
+      createTag(repo, "v1.1.0", 2);
+
+      const { coreMock, openAI } = await runMockedAction(repo, {
+        create_release: "false",
+      });
+
+      expect(openAIInput(openAI)).toContain("Breaking changes detected (1):");
+      expect(coreMock.outputs.breaking_change_count).toBe("1");
+      expect(coreMock.outputs.release_notes).toMatch(/^## Breaking Changes\n/);
+      expect(coreMock.outputs.release_notes).toContain("Generated notes");
     }));
 
   it("generates notes without writing a release when create_release is false", async () =>
@@ -571,24 +1588,1377 @@ describe.sequential("action orchestration", () => {
 
       const { coreMock, openAI } = await runMockedAction(repo, {
         create_release: "false",
-        max_stage_chars: "1000",
+        max_stage_tokens: "250",
       });
 
       expect(openAI.calls.length).toBeGreaterThan(1);
       expect(coreMock.outputs.used_batching).toBe("true");
+      expect(coreMock.outputs.summarization_depth).toBe("1");
+      expect(coreMock.outputs.summary_cache_hits).toBe("0");
       expect(coreMock.outputs.prompt_char_count).toMatch(/^\d+$/);
+      expect(coreMock.outputs.prompt_token_count).toMatch(/^\d+$/);
+
+      const legacy = await runMockedAction(repo, {
+        create_release: "false",
+        max_stage_chars: "1000",
+      });
+      expect(legacy.coreMock.outputs.used_batching).toBe("true");
+      expect(legacy.coreMock.warnings.join("\n")).toContain(
+        "max_stage_chars is deprecated; using 250 tokens."
+      );
     }));
 
-  it("sets an empty previous_tag output for the first release", async () =>
+  it("groups commits by Conventional Commit type unless disabled", async () =>
     withRepo(async (repo) => {
       commitFile(repo, "file.ts", "export const one = 1;", "feat: first", 1);
-      createTag(repo, "v1.1.0", 1);
+      createTag(repo, "v1.0.0", 1);
+      commitFile(repo, "file.ts", "export const two = 2;", "fix: second", 2);
+      createTag(repo, "v1.1.0", 2);
 
-      const { coreMock } = await runMockedAction(repo, {
+      const grouped = await runMockedAction(repo, {
+        create_release: "false",
+        conventional_sections: "fix=Fixes",
+      });
+      const flat = await runMockedAction(repo, {
         create_release: "false",
+        conventional_commits: "false",
       });
 
-      expect(coreMock.outputs.previous_tag).toBe("");
-      expect(coreMock.outputs.commit_count).toBe("1");
+      expect(openAIInput(grouped.openAI)).toContain("Section: Fixes");
+      expect(openAIInput(flat.openAI)).not.toContain("Section:");
+    }));
+
+  it("adds pull request context and deduplicates commits by pull request", async () =>
+    withRepo(async (repo) => {
+      commitFile(repo, "file.ts", "export const one = 1;", "feat: first", 1);
+      createTag(repo, "v1.0.0", 1);
+      commitFile(repo, "a.ts", "export const a = 1;", "wip: start widgets", 2);
+      commitFile(repo, "b.ts", "export const b = 1;", "wip: finish widgets", 3);
+      commitFile(repo, "c.ts", "export const c = 1;", "fix: unrelated", 4);
+      createTag(repo, "v1.1.0", 2);
+      const unrelated = currentHead(repo);
+
+      const { coreMock, github, openAI } = await runMockedAction(
+        repo,
+        { create_release: "false" },
+        undefined,
+        (sha) =>
+          sha === unrelated
+            ? []
+            : [
+                {
+                  number: 12,
+                  title: "Add widgets",
+                  body: "Users can now build widgets.",
+                  labels: [{ name: "enhancement" }],
+                  user: { login: "octocat" },
+                  merged_at: "2020-01-01T00:00:00Z",
+                },
+              ]
+      );
+      const input = openAIInput(openAI);
+
+      expect(github.calls.listPullRequestsAssociatedWithCommit).toHaveLength(3);
+      expect(input.match(/Pull request #12: Add widgets \(by @octocat\)/g)).toHaveLength(1);
+      expect(input).toContain("Pull request labels: enhancement");
+      expect(input).toContain("Users can now build widgets.");
+      expect(input).toContain("wip: start widgets");
+      expect(input).toContain("wip: finish widgets");
+      expect(input.match(/^Commit [0-9a-f]{7}$/gm)).toHaveLength(2);
+      expect(coreMock.outputs.commit_count).toBe("3");
+    }));
+
+  it("appends a contributors section with GitHub handles unless disabled", async () =>
+    withRepo(async (repo) => {
+      commitFile(repo, "file.ts", "export const one = 1;", "feat: first", 1);
+      createTag(repo, "v1.0.0", 1);
+      commitFile(repo, "file.ts", "export const two = 2;", "feat: second", 2);
+      createTag(repo, "v1.1.0", 2);
+
+      const enabled = await runMockedAction(repo, { create_release: "false" });
+      const disabled = await runMockedAction(repo, {
+        create_release: "false",
+        include_contributors: "false",
+      });
+
+      expect(enabled.github.calls.getCommit).toHaveLength(1);
+      expect(enabled.coreMock.outputs.release_notes).toMatch(
+        /Generated notes \([0-9a-f]{7}\)\n\n## Contributors\n\n@scribe-bot$/
+      );
+      expect(openAIInput(enabled.openAI)).not.toContain("## Contributors");
+      expect(disabled.coreMock.outputs.release_notes).not.toContain(
+        "## Contributors"
+      );
+    }));
+
+  it("continues without pull request context when lookup fails", async () =>
+    withRepo(async (repo) => {
+      commitFile(repo, "file.ts", "export const one = 1;", "feat: first", 1);
+      createTag(repo, "v1.0.0", 1);
+      commitFile(repo, "file.ts", "export const two = 2;", "feat: second", 2);
+      createTag(repo, "v1.1.0", 2);
+
+      const { coreMock, openAI } = await runMockedAction(
+        repo,
+        { create_release: "false" },
+        undefined,
+        () => {
+          throw new Error("Resource not accessible by integration");
+        }
+      );
+
+      expect(openAIInput(openAI)).not.toContain("Pull request #");
+      expect(
+        coreMock.warnings.some((warning) =>
+          warning.includes("Failed to look up pull requests")
+        )
+      ).toBe(true);
+    }));
+
+  it("uses repository prompt templates with rendered variables", async () =>
+    withRepo(async (repo) => {
+      commitFile(repo, "file.ts", "export const one = 1;", "feat: first", 1);
+      createTag(repo, "v1.0.0", 1);
+      commitFile(repo, "file.ts", "export const two = 2;", "feat: second", 2);
+      createTag(repo, "v1.1.0", 2);
+      writeFileSync(
+        join(repo, "notes-prompt.md"),
+        "Write {{repo}} notes for {{tag}} ({{commit_count}} commits since {{previous_tag}}) on {{date}}.\n"
+      );
+
+      const { openAI } = await runMockedAction(repo, {
+        create_release: "false",
+        final_prompt_file: "notes-prompt.md",
+      });
+
+      expect(openAIInstructions(openAI)).toMatch(
+        /^Write acme\/widgets notes for v1\.1\.0 \(1 commits since v1\.0\.0\) on \d{4}-\d{2}-\d{2}\.\n\n/
+      );
+    }));
+
+  it("rejects prompt templates with unknown variables before calling OpenAI", async () =>
+    withRepo(async (repo) => {
+      commitFile(repo, "file.ts", "export const one = 1;", "feat: first", 1);
+      createTag(repo, "v1.1.0", 1);
+      writeFileSync(join(repo, "stage.md"), "Summarize {{product}} commits.");
+
+      await expect(
+        runMockedAction(repo, {
+          create_release: "false",
+          stage_prompt_file: "stage.md",
+        })
+      ).rejects.toThrow(
+        "stage_prompt_file stage.md uses unknown template variable(s): {{product}}"
+      );
+      await expect(
+        runMockedAction(repo, { final_prompt_file: "missing.md" })
+      ).rejects.toThrow("final_prompt_file missing.md not found");
+    }));
+
+  it("requests structured notes and renders them locally when enabled", async () =>
+    withRepo(async (repo) => {
+      commitFile(repo, "file.ts", "export const one = 1;", "feat: first", 1);
+      createTag(repo, "v1.0.0", 1);
+      commitFile(repo, "file.ts", "export const one = 2;", "feat: second", 2);
+      createTag(repo, "v1.1.0", 2);
+      const sha = currentHead(repo);
+      const structured = {
+        sections: [
+          { title: "Features", items: [{ summary: "Second thing.", commits: [sha] }] },
+        ],
+      };
+
+      const { coreMock, openAI } = await runMockedAction(
+        repo,
+        {
+          create_release: "false",
+          include_contributors: "false",
+          structured_output: "true",
+        },
+        undefined,
+        undefined,
+        makeOpenAIClient(JSON.stringify(structured))
+      );
+
+      expect(openAI.calls[0]).toMatchObject({
+        text: { format: { type: "json_schema", name: "release_notes" } },
+      });
+      expect(openAIInstructions(openAI)).toContain(readPrompt("structured-output.md"));
+      expect(coreMock.outputs.release_notes).toBe(
+        `## What's Changed\n\n### Features\n\n- Second thing. (${sha.slice(0, 7)})`
+      );
+      expect(JSON.parse(coreMock.outputs.release_notes_json)).toEqual(structured);
+    }));
+
+  it("adds detected breaking changes to structured notes and their JSON", async () =>
+    withRepo(async (repo) => {
+      commitFile(repo, "file.ts", "export const one = 1;", "feat: first", 1);
+      createTag(repo, "v1.0.0", 1);
+      commitFile(repo, "file.ts", "export const one = 2;", "feat!: change one", 2);
+      createTag(repo, "v1.1.0", 2);
+      const sha = currentHead(repo);
+      const structured = {
+        sections: [
+          { title: "Features", items: [{ summary: "Changed one.", commits: [sha] }] },
+        ],
+      };
+
+      const { coreMock } = await runMockedAction(
+        repo,
+        {
+          create_release: "false",
+          include_contributors: "false",
+          structured_output: "true",
+        },
+        undefined,
+        undefined,
+        makeOpenAIClient(JSON.stringify(structured))
+      );
+
+      const json = JSON.parse(coreMock.outputs.release_notes_json);
+      expect(json.sections.map((section: { title: string }) => section.title)).toEqual([
+        "Breaking Changes",
+        "Features",
+      ]);
+      expect(json.sections[0].items).toEqual([
+        {
+          summary: expect.stringMatching(/^change one\. Migration: /),
+          commits: [sha],
+        },
+      ]);
+      expect(coreMock.outputs.release_notes).toMatch(
+        new RegExp(
+          `^## Breaking Changes\\n\\n- change one\\. Migration: .* \\(${sha.slice(0, 7)}\\)` +
+            "\\n\\n## What's Changed"
+        )
+      );
+    }));
+
+  it("drops generated bullets that cite no commit in the range", async () =>
+    withRepo(async (repo) => {
+      commitFile(repo, "file.ts", "export const one = 1;", "feat: first", 1);
+      createTag(repo, "v1.0.0", 1);
+      commitFile(repo, "file.ts", "export const one = 2;", "fix: second", 2);
+      createTag(repo, "v1.1.0", 2);
+      const sha = currentHead(repo).slice(0, 7);
+      const output = `## What's Changed\n\n- Fixed the thing (${sha}).\n- Added teleportation (0000000).\n- Added time travel.`;
+      const inputs = { create_release: "false", include_contributors: "false" };
+
+      const dropped = await runMockedAction(
+        repo,
+        inputs,
+        undefined,
+        undefined,
+        makeOpenAIClient(output)
+      );
+      const flagged = await runMockedAction(
+        repo,
+        { ...inputs, unsupported_bullets: "flag" },
+        undefined,
+        undefined,
+        makeOpenAIClient(output)
+      );
+      const disabled = await runMockedAction(
+        repo,
+        { ...inputs, unsupported_bullets: "off" },
+        undefined,
+        undefined,
+        makeOpenAIClient(output)
+      );
+
+      expect(dropped.coreMock.outputs.release_notes).toBe(
+        `## What's Changed\n\n- Fixed the thing (${sha}).`
+      );
+      expect(dropped.coreMock.outputs.unsupported_bullet_count).toBe("2");
+      expect(
+        dropped.coreMock.warnings.some((warning) =>
+          warning.includes("Dropped 2 release-note bullet(s)")
+        )
+      ).toBe(true);
+      expect(flagged.coreMock.outputs.release_notes).toContain(
+        "- Added time travel. (unverified: no matching commit)"
+      );
+      expect(flagged.coreMock.outputs.unsupported_bullet_count).toBe("2");
+      expect(disabled.coreMock.outputs.release_notes).toBe(output);
+      expect(disabled.coreMock.outputs.unsupported_bullet_count).toBe("0");
+      expect(openAIInstructions(disabled.openAI)).toBe(readPrompt("final-release.md"));
+      await expect(
+        runMockedAction(repo, { unsupported_bullets: "maybe" })
+      ).rejects.toThrow("unsupported_bullets must be one of: drop, flag, off.");
+    }));
+
+  it("keeps the placeholder note for an empty release range", async () =>
+    withRepo(async (repo) => {
+      commitFile(repo, "file.ts", "export const one = 1;", "feat: first", 1);
+      createTag(repo, "v1.0.0", 1);
+      createTag(repo, "v1.1.0", 2);
+      const output = "## What's Changed\n\n- No code changes in this release.";
+
+      const { coreMock } = await runMockedAction(
+        repo,
+        { create_release: "false", include_contributors: "false" },
+        undefined,
+        undefined,
+        makeOpenAIClient(output)
+      );
+
+      expect(coreMock.outputs.commit_count).toBe("0");
+      expect(coreMock.outputs.release_notes).toBe(output);
+      expect(coreMock.outputs.unsupported_bullet_count).toBe("0");
+      expect(
+        verifyReleaseNoteSources(
+          "- Added time travel.",
+          { shas: ["abcdef1234567"], pullRequests: [] },
+          "drop"
+        ).notes
+      ).toBe("## What's Changed\n\n- No changes.");
+    }));
+
+  it("marks prerelease tags as prereleases unless prerelease is set", async () =>
+    withRepo(async (repo) => {
+      commitFile(repo, "file.ts", "export const one = 1;", "feat: first", 1);
+      createTag(repo, "v1.0.0", 1);
+      commitFile(repo, "file.ts", "export const one = 2;", "feat: second", 2);
+      createTag(repo, "v1.1.0-rc.1", 2);
+
+      const derived = await runMockedAction(repo, { tag: "v1.1.0-rc.1" });
+      const explicit = await runMockedAction(repo, {
+        tag: "v1.1.0-rc.1",
+        prerelease: "false",
+      });
+
+      expect(derived.github.calls.createRelease[0]).toMatchObject({
+        tag_name: "v1.1.0-rc.1",
+        prerelease: true,
+      });
+      expect(explicit.github.calls.createRelease[0]).toMatchObject({
+        prerelease: false,
+      });
+    }));
+
+  it("outputs a recommended version with an optional model judgment", async () =>
+    withRepo(async (repo) => {
+      commitFile(repo, "file.ts", "export const one = 1;", "feat: first", 1);
+      createTag(repo, "v1.0.0", 1);
+      commitFile(repo, "file.ts", "export const one = 2;", "fix: second", 2);
+      createTag(repo, "v1.1.0", 2);
+
+      const commits = await runMockedAction(repo, { recommend_version: "commits" });
+      const model = await runMockedAction(repo, { recommend_version: "model" });
+      const off = await runMockedAction(repo);
+
+      expect(commits.coreMock.outputs.recommended_bump).toBe("patch");
+      expect(commits.coreMock.outputs.recommended_version).toBe("v1.0.1");
+      expect(commits.coreMock.outputs.bump_justification).toMatch(
+        /^- [0-9a-f]{7} fix: second \(fix or other change\)$/
+      );
+      expect(commits.openAI.calls).toHaveLength(1);
+      expect(model.coreMock.outputs.recommended_bump).toBe("minor");
+      expect(model.coreMock.outputs.recommended_version).toBe("v1.1.0");
+      expect(model.coreMock.outputs.bump_justification).toContain(
+        "- model judgment: Adds a new option."
+      );
+      expect(openAIInput(model.openAI)).toContain(
+        "Commit-based recommendation: patch"
+      );
+      expect(openAIInstructions(model.openAI)).toBe(readPrompt("version-bump.md"));
+      expect(off.coreMock.outputs.recommended_bump).toBeUndefined();
+    }));
+
+  it("writes the notes to changelog_file under the tag's version", async () =>
+    withRepo(async (repo) => {
+      commitFile(repo, "file.ts", "export const one = 1;", "feat: first", 1);
+      createTag(repo, "v1.0.0", 1);
+      commitFile(repo, "file.ts", "export const one = 2;", "fix: second", 2);
+      createTag(repo, "v1.1.0", 2);
+      writeFileSync(join(repo, "CHANGELOG.md"), "# Changelog\n\n## [Unreleased]\n");
+
+      await runMockedAction(repo, {
+        changelog_file: "CHANGELOG.md",
+        include_contributors: "false",
+      });
+      await runMockedAction(repo, {
+        changelog_file: "CHANGELOG.md",
+        include_contributors: "false",
+      });
+
+      const changelog = readFileSync(join(repo, "CHANGELOG.md"), "utf8");
+      expect(changelog).toMatch(
+        /^# Changelog\n\n## \[Unreleased\]\n\n## \[1\.1\.0\]\(https:\/\/github\.com\/acme\/widgets\/compare\/v1\.0\.0\.\.\.v1\.1\.0\) - \d{4}-\d{2}-\d{2}\n\n### Changed\n\n- Generated notes \([0-9a-f]{7}\)\n$/
+      );
+    }));
+
+  it("opens and reuses a changelog pull request for the tag", async () =>
+    withRepo(async (repo) => {
+      commitFile(repo, "file.ts", "export const one = 1;", "feat: first", 1);
+      createTag(repo, "v1.0.0", 1);
+      commitFile(repo, "file.ts", "export const one = 2;", "fix: second", 2);
+      createTag(repo, "v1.1.0", 2);
+      const github = makeOctokit();
+      github.files.set(
+        "main:CHANGELOG.md",
+        "# Changelog\n\n## [1.0.0] - 2026-01-01\n\n- Kept.\n"
+      );
+      const run = async () => {
+        const coreMock = makeCore({
+          openai_api_key: "openai-key",
+          github_token: "github-token",
+          tag: "v1.1.0",
+          include_contributors: "false",
+          create_release: "false",
+          changelog_file: "CHANGELOG.md",
+          changelog_pull_request: "true",
+        });
+        await runAction({
+          core: coreMock.core,
+          context: {
+            ref: "refs/tags/v1.1.0",
+            sha: currentHead(repo),
+            repo: { owner: "acme", repo: "widgets" },
+          },
+          env: {},
+          getOctokit: () => github.octokit,
+          createOpenAIClient: () => makeOpenAIClient().client,
+        } as ActionDependencies);
+        return coreMock;
+      };
+
+      const first = await run();
+      const second = await run();
+
+      expect(github.calls.createRef).toEqual([
+        expect.objectContaining({
+          ref: "refs/heads/release-notes-scribe/changelog-v1.1.0",
+          sha: "base-sha",
+        }),
+      ]);
+      expect(github.calls.createOrUpdateFileContents).toHaveLength(1);
+      expect(github.calls.createPull).toEqual([
+        expect.objectContaining({
+          head: "release-notes-scribe/changelog-v1.1.0",
+          base: "main",
+          title: "docs(changelog): release notes for v1.1.0",
+        }),
+      ]);
+      expect(github.calls.updatePull).toHaveLength(1);
+      expect(
+        github.files.get("release-notes-scribe/changelog-v1.1.0:CHANGELOG.md")
+      ).toMatch(
+        /^# Changelog\n\n## \[1\.1\.0\]\(https:\/\/github\.com\/acme\/widgets\/compare\/v1\.0\.0\.\.\.v1\.1\.0\) - [\d-]+\n\n### Changed\n\n- Generated notes \([0-9a-f]{7}\)\n\n## \[1\.0\.0\] - 2026-01-01\n\n- Kept\.\n$/
+      );
+      expect(first.outputs.changelog_pull_request_url).toBe(
+        "https://github.com/acme/widgets/pull/40"
+      );
+      expect(second.outputs.changelog_pull_request_url).toBe(
+        "https://github.com/acme/widgets/pull/40"
+      );
+    }));
+
+  it("retries rate limits and falls back to the next model", async () =>
+    withRepo(async (repo) => {
+      commitFile(repo, "file.ts", "export const one = 1;", "feat: first", 1);
+      createTag(repo, "v1.0.0", 1);
+      commitFile(repo, "file.ts", "export const one = 2;", "fix: second", 2);
+      createTag(repo, "v1.1.0", 2);
+      const inputs = { unsupported_bullets: "off", include_contributors: "false" };
+
+      const retried = makeFlakyOpenAIClient({
+        "gpt-5.6-terra": [apiError(429, { "retry-after": "0" })],
+      });
+      const retriedRun = await runMockedAction(
+        repo,
+        inputs,
+        undefined,
+        undefined,
+        retried as unknown as ReturnType<typeof makeOpenAIClient>
+      );
+      const fallback = makeFlakyOpenAIClient({
+        "gpt-5.6-terra": [
+          apiError(503, { "retry-after-ms": "0" }),
+          apiError(503, { "retry-after-ms": "0" }),
+        ],
+      });
+      const fallbackRun = await runMockedAction(
+        repo,
+        { ...inputs, max_retries: "1", fallback_models: "backup-model" },
+        undefined,
+        undefined,
+        fallback as unknown as ReturnType<typeof makeOpenAIClient>
+      );
+
+      expect(retried.calls.map(({ model }) => model)).toEqual([
+        "gpt-5.6-terra",
+        "gpt-5.6-terra",
+      ]);
+      expect(retriedRun.coreMock.outputs.retry_count).toBe("1");
+      expect(retriedRun.coreMock.outputs.notes_model).toBe("gpt-5.6-terra");
+      expect(retriedRun.coreMock.warnings.join("\n")).toContain(
+        "Retrying in 0s (retry 1 of 3)"
+      );
+      expect(fallback.calls.map(({ model }) => model)).toEqual([
+        "gpt-5.6-terra",
+        "gpt-5.6-terra",
+        "backup-model",
+      ]);
+      expect(fallbackRun.coreMock.outputs.retry_count).toBe("1");
+      expect(fallbackRun.coreMock.outputs.notes_model).toBe("backup-model");
+      expect(fallbackRun.github.releases[0].body).toContain("model=backup-model ");
+      expect(fallbackRun.coreMock.outputs.release_notes).toContain(
+        "Notes from backup-model"
+      );
+      expect(fallbackRun.coreMock.warnings.join("\n")).toContain(
+        "Falling back to backup-model."
+      );
+    }));
+
+  it("aborts timed-out calls and does not retry client errors", async () => {
+    const request = {
+      model: "primary",
+      tag: "v1.1.0",
+      previousTag: "v1.0.0",
+      commits: [],
+      githubNotes: "",
+      maxStageTokens: 100000,
+    };
+    const logger = { info: () => undefined, warning: () => undefined };
+    const timedOut = makeFlakyOpenAIClient({ primary: ["hang"] });
+    const rejected = makeFlakyOpenAIClient({ primary: [apiError(400)] });
+
+    const result = await generateReleaseNotes(
+      timedOut.client,
+      { ...request, retry: { timeoutMs: 20, baseDelayMs: 1 } },
+      logger
+    );
+
+    expect(result).toMatchObject({ retryCount: 1, finalModel: "primary" });
+    expect(timedOut.calls[0].signal?.aborted).toBe(true);
+    await expect(
+      generateReleaseNotes(rejected.client, request, logger)
+    ).rejects.toThrow("400 error");
+    expect(rejected.calls).toHaveLength(1);
+  });
+
+  it("counts prompt tokens with the model family tokenizer", () => {
+    expect(tokenEncodingForModel("gpt-4-turbo")).toBe("cl100k_base");
+    expect(tokenEncodingForModel("gpt-3.5-turbo")).toBe("cl100k_base");
+    expect(tokenEncodingForModel("gpt-4o-mini")).toBe("o200k_base");
+    expect(tokenEncodingForModel("gpt-4.1")).toBe("o200k_base");
+    expect(tokenEncodingForModel("openai/gpt-5.6-terra")).toBe("o200k_base");
+
+    const counter = createTokenCounter("gpt-5.6-terra");
+    expect(counter.count("hello world")).toBe(2);
+    expect(counter.count("<|endoftext|>")).toBeGreaterThan(1);
+    const cjk = "リリースノートを生成します。".repeat(20);
+    expect(counter.count(cjk)).toBeGreaterThan(cjk.length / 4);
+    const trimmed = counter.trim(cjk, 10);
+    expect(trimmed.endsWith("...")).toBe(true);
+    expect(counter.count(trimmed)).toBeLessThanOrEqual(10);
+  });
+
+  it("summarizes batches concurrently and keeps their order", async () => {
+    const commits = Array.from({ length: 5 }, (_, index) => ({
+      sha: `sha${index}`,
+      message: `feat: change ${index}`,
+      diffLines: Array.from(
+        { length: 15 },
+        (_, line) => `+const value${index}_${line} = compute(${line}, options);`
+      ),
+      files: [],
+      conventional: null,
+      breakingChanges: [],
+      pullRequest: null,
+    }));
+    const infos: string[] = [];
+    let inFlight = 0;
+    let maxInFlight = 0;
+    let finalInput = "";
+    const client = {
+      responses: {
+        create: async (args: { input: string }) => {
+          const match = /sha(\d)/.exec(args.input);
+          if (!args.input.includes("feat: change") || !match) {
+            finalInput = args.input;
+            return { output_text: "## What's Changed\n\n- Final" };
+          }
+          inFlight += 1;
+          maxInFlight = Math.max(maxInFlight, inFlight);
+          await new Promise((resolve) =>
+            setTimeout(resolve, (5 - Number(match[1])) * 5)
+          );
+          inFlight -= 1;
+          return { output_text: `summary ${match[1]}` };
+        },
+      },
+    };
+
+    const result = await generateReleaseNotes(
+      client,
+      {
+        model: "primary",
+        tag: "v1.1.0",
+        previousTag: "v1.0.0",
+        commits,
+        githubNotes: "",
+        maxStageTokens: 250,
+        maxConcurrency: 3,
+      },
+      { info: (message) => infos.push(message), warning: () => undefined }
+    );
+
+    expect(result.usedBatching).toBe(true);
+    expect(maxInFlight).toBe(3);
+    const order = [0, 1, 2, 3, 4].map((index) =>
+      finalInput.indexOf(`summary ${index}`)
+    );
+    expect(order.every((position) => position >= 0)).toBe(true);
+    expect([...order].sort((a, b) => a - b)).toEqual(order);
+    expect(infos.join("\n")).toContain("Summarizing in 5 batches, 3 at a time.");
+    expect(infos.join("\n")).toMatch(
+      /Summarized batch 1 of 5 \(1 commits\) in \d+\.\ds\./
+    );
+  });
+
+  it("starts no further batches after one fails", async () => {
+    const commits = Array.from({ length: 5 }, (_, index) => ({
+      sha: `sha${index}`,
+      message: `feat: change ${index}`,
+      diffLines: Array.from(
+        { length: 15 },
+        (_, line) => `+const value${index}_${line} = compute(${line}, options);`
+      ),
+      files: [],
+      conventional: null,
+      breakingChanges: [],
+      pullRequest: null,
+    }));
+    const started: string[] = [];
+    const client = {
+      responses: {
+        create: async (args: { input: string }) => {
+          const index = /sha(\d)/.exec(args.input)?.[1] ?? "final";
+          started.push(index);
+          if (index === "0") {
+            throw Object.assign(new Error("bad request"), { status: 400 });
+          }
+          await new Promise((resolve) => setTimeout(resolve, 20));
+          return { output_text: `summary ${index}` };
+        },
+      },
+    };
+
+    await expect(
+      generateReleaseNotes(
+        client,
+        {
+          model: "primary",
+          tag: "v1.1.0",
+          previousTag: "v1.0.0",
+          commits,
+          githubNotes: "",
+          maxStageTokens: 250,
+          maxConcurrency: 2,
+        },
+        { info: () => undefined, warning: () => undefined }
+      )
+    ).rejects.toThrow("bad request");
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    expect(started).toEqual(["0", "1"]);
+  });
+
+  it("merges summaries again until the final prompt fits", async () => {
+    const commits = Array.from({ length: 8 }, (_, index) => ({
+      sha: `sha${index}`,
+      message: `feat: change ${index}`,
+      diffLines: Array.from(
+        { length: 15 },
+        (_, line) => `+const value${index}_${line} = compute(${line}, options);`
+      ),
+      files: [],
+      conventional: null,
+      breakingChanges: [],
+      pullRequest: null,
+    }));
+    const calls: string[] = [];
+    let finalInput = "";
+    const client = {
+      responses: {
+        create: async (args: { input: string; instructions: string }) => {
+          if (args.instructions === readPrompt("stage-summary.md")) {
+            calls.push("stage");
+            const index = /change (\d)/.exec(args.input)?.[1];
+            return { output_text: `- item ${index} ${"detail ".repeat(90)}` };
+          }
+          if (args.instructions === readPrompt("summary-merge.md")) {
+            calls.push("merge");
+            const items = [...args.input.matchAll(/item (\d)/g)].map((match) => match[1]);
+            return { output_text: `- merged ${items.join(" ")}` };
+          }
+          finalInput = args.input;
+          return { output_text: "## What's Changed\n\n- Final" };
+        },
+      },
+    };
+
+    const result = await generateReleaseNotes(
+      client,
+      {
+        model: "primary",
+        tag: "v2.0.0",
+        previousTag: "v1.0.0",
+        commits,
+        githubNotes: "",
+        maxStageTokens: 250,
+      },
+      { info: () => undefined, warning: () => undefined }
+    );
+
+    expect(result.summarizationDepth).toBe(2);
+    expect(calls.filter((call) => call === "stage")).toHaveLength(8);
+    expect(calls.filter((call) => call === "merge")).toHaveLength(4);
+    expect(finalInput).toContain(
+      "Batch 1 summary:\n- merged 0 1\n\nBatch 2 summary:\n- merged 2 3"
+    );
+    expect(finalInput).toContain("Batch 4 summary:\n- merged 6 7");
+    expect(result.promptTokenCount).toBeLessThanOrEqual(250);
+  });
+
+  it("reuses cached batch summaries on rerun", async () => {
+    const commits = Array.from({ length: 3 }, (_, index) => ({
+      sha: `sha${index}`,
+      message: `feat: change ${index}`,
+      diffLines: Array.from(
+        { length: 15 },
+        (_, line) => `+const value${index}_${line} = compute(${line}, options);`
+      ),
+      files: [],
+      conventional: null,
+      breakingChanges: [],
+      pullRequest: null,
+    }));
+    const summaryCacheDir = join(
+      mkdtempSync(join(tmpdir(), "release-notes-cache-")),
+      "summaries"
+    );
+    const run = async (runCommits: typeof commits, date = "2026-10-19") => {
+      const { client, calls } = makeOpenAIClient();
+      const result = await generateReleaseNotes(
+        client,
+        {
+          model: "primary",
+          tag: "v1.1.0",
+          previousTag: "v1.0.0",
+          commits: runCommits,
+          githubNotes: "",
+          maxStageTokens: 250,
+          summaryCacheDir,
+          templates: { stage: "Summarize {{commit_count}} commits for {{tag}} on {{date}}." },
+          templateVariables: {
+            tag: "v1.1.0",
+            previous_tag: "v1.0.0",
+            repo: "acme/widgets",
+            commit_count: String(runCommits.length),
+            date,
+          },
+        },
+        { info: () => undefined, warning: () => undefined }
+      );
+      return { result, calls };
+    };
+
+    const first = await run(commits);
+    const second = await run(commits, "2026-10-20");
+    const changed = await run([
+      ...commits.slice(0, 2),
+      { ...commits[2], message: "feat: change 2 again" },
+    ]);
+
+    expect(first.result).toMatchObject({ summaryCacheHits: 0, summaryCacheMisses: 3 });
+    expect(first.calls).toHaveLength(4);
+    expect(second.result).toMatchObject({ summaryCacheHits: 3, summaryCacheMisses: 0 });
+    expect(second.calls).toHaveLength(1);
+    expect(changed.result).toMatchObject({ summaryCacheHits: 2, summaryCacheMisses: 1 });
+    expect(changed.calls).toHaveLength(2);
+  });
+
+  it("does not cache summaries written by a fallback model", async () => {
+    const commits = Array.from({ length: 3 }, (_, index) => ({
+      sha: `sha${index}`,
+      message: `feat: change ${index}`,
+      diffLines: Array.from(
+        { length: 15 },
+        (_, line) => `+const value${index}_${line} = compute(${line}, options);`
+      ),
+      files: [],
+      conventional: null,
+      breakingChanges: [],
+      pullRequest: null,
+    }));
+    const summaryCacheDir = join(
+      mkdtempSync(join(tmpdir(), "release-notes-cache-")),
+      "summaries"
+    );
+    const run = async (failPrimary: boolean) => {
+      const models: string[] = [];
+      const client = {
+        responses: {
+          create: async (args: { model: string }) => {
+            models.push(args.model);
+            if (failPrimary && args.model === "primary") {
+              throw Object.assign(new Error("bad request"), { status: 400 });
+            }
+            return { output_text: `summary from ${args.model}` };
+          },
+        },
+      };
+      const result = await generateReleaseNotes(
+        client,
+        {
+          model: "primary",
+          fallbackModels: ["backup"],
+          tag: "v1.1.0",
+          previousTag: "v1.0.0",
+          commits,
+          githubNotes: "",
+          maxStageTokens: 250,
+          maxConcurrency: 1,
+          summaryCacheDir,
+        },
+        { info: () => undefined, warning: () => undefined }
+      );
+      return { result, models };
+    };
+
+    const fallback = await run(true);
+    const rerun = await run(false);
+
+    expect(fallback.result.finalModel).toBe("backup");
+    expect(rerun.result).toMatchObject({ summaryCacheHits: 0, summaryCacheMisses: 3 });
+    expect(rerun.models.every((model) => model === "primary")).toBe(true);
+  });
+
+  it("updates existing notes with only the commits after their recorded head", async () =>
+    withRepo(async (repo) => {
+      commitFile(repo, "file.ts", "export const one = 1;", "feat: base", 1);
+      createTag(repo, "v1.0.0", 1);
+      commitFile(repo, "file.ts", "export const one = 2;", "feat: first change", 2);
+      createTag(repo, "v1.1.0", 2);
+      const firstHead = currentHead(repo);
+      const inputs = { include_contributors: "false" };
+
+      const first = await runMockedAction(repo, inputs);
+      const firstBody = first.github.releases[0].body;
+      expect(firstBody).toContain(
+        `<!-- release-notes-scribe:metadata head=${firstHead} model=gpt-5.6-terra prompt=`
+      );
+      expect(first.coreMock.outputs.release_notes).not.toContain("metadata");
+
+      commitFile(repo, "file.ts", "export const one = 3;", "fix: second change", 3);
+      execFileSync("git", ["tag", "-d", "v1.1.0"], { cwd: repo });
+      createTag(repo, "v1.1.0", 3);
+      const editedBody = firstBody.replace("Generated notes", "Hand-edited notes");
+      const existing = { id: 1, draft: true, body: editedBody };
+
+      const second = await runMockedAction(repo, inputs, existing);
+      expect(second.openAI.calls).toHaveLength(1);
+      expect(openAIInput(second.openAI)).toContain("fix: second change");
+      expect(openAIInput(second.openAI)).not.toContain("feat: first change");
+      expect(openAIInput(second.openAI)).toContain(
+        `Existing release notes:\n## What's Changed\n\n- Hand-edited notes (${firstHead.slice(0, 7)})`
+      );
+      expect(openAIInput(second.openAI)).not.toContain("release-notes-scribe:metadata");
+      expect(openAIInstructions(second.openAI)).toContain(
+        readPrompt("incremental-update.md")
+      );
+      expect(second.github.calls.getReleaseByTag).toHaveLength(1);
+      expect((second.github.calls.updateRelease[0] as { body: string }).body).toContain(
+        `head=${currentHead(repo)}`
+      );
+
+      const unchanged = await runMockedAction(repo, inputs, {
+        ...existing,
+        body: (second.github.calls.updateRelease[0] as { body: string }).body,
+      });
+      expect(unchanged.openAI.calls).toHaveLength(0);
+
+      const otherModel = await runMockedAction(
+        repo,
+        { ...inputs, model: "other-model" },
+        existing
+      );
+      expect(openAIInput(otherModel.openAI)).toContain("feat: first change");
+      const disabled = await runMockedAction(
+        repo,
+        { ...inputs, incremental: "false" },
+        existing
+      );
+      expect(openAIInput(disabled.openAI)).toContain("feat: first change");
+    }));
+
+  it("regenerates structured notes in full on rerun", async () =>
+    withRepo(async (repo) => {
+      commitFile(repo, "file.ts", "export const one = 1;", "feat: base", 1);
+      createTag(repo, "v1.0.0", 1);
+      commitFile(repo, "file.ts", "export const one = 2;", "feat: first change", 2);
+      createTag(repo, "v1.1.0", 2);
+      const inputs = { include_contributors: "false", structured_output: "true" };
+      const output = JSON.stringify({
+        sections: [
+          {
+            title: "Features",
+            items: [{ summary: "First change.", commits: [currentHead(repo)] }],
+          },
+        ],
+      });
+
+      const first = await runMockedAction(
+        repo,
+        inputs,
+        undefined,
+        undefined,
+        makeOpenAIClient(output)
+      );
+      const rerun = await runMockedAction(
+        repo,
+        inputs,
+        { id: 1, draft: true, body: first.github.releases[0].body },
+        undefined,
+        makeOpenAIClient(output)
+      );
+
+      expect(rerun.openAI.calls).toHaveLength(1);
+      expect(JSON.parse(rerun.coreMock.outputs.release_notes_json)).toEqual(
+        JSON.parse(output)
+      );
+    }));
+
+  it("keeps a draft body written before the generated block existed", async () =>
+    withRepo(async (repo) => {
+      commitFile(repo, "file.ts", "export const one = 1;", "feat: base", 1);
+      createTag(repo, "v1.0.0", 1);
+      commitFile(repo, "file.ts", "export const one = 2;", "feat: change", 2);
+      createTag(repo, "v1.1.0", 2);
+
+      const { coreMock, github } = await runMockedAction(
+        repo,
+        { include_contributors: "false" },
+        { id: 1, draft: true, body: "Known issue: restart after upgrading." }
+      );
+
+      const body = (github.calls.updateRelease[0] as { body: string }).body;
+      expect(body.startsWith(GENERATED_START_MARKER)).toBe(true);
+      expect(body).toMatch(
+        new RegExp(`${GENERATED_END_MARKER}\\n\\nKnown issue: restart after upgrading\\.$`)
+      );
+      expect(coreMock.info.join("\n")).toContain(
+        "The existing body of v1.1.0 has no generated block; kept it after the new notes."
+      );
+    }));
+
+  it("replaces only the generated block of an edited release body", () => {
+    const generated = `${GENERATED_START_MARKER}\nNew notes\n${GENERATED_END_MARKER}`;
+    const keep = "<!-- scribe:keep -->\nThanks to the docs team.\n<!-- /scribe:keep -->";
+
+    expect(
+      mergeReleaseBody(
+        `Known issues: none.\n\n${GENERATED_START_MARKER}\nOld notes\n${keep}\n${GENERATED_END_MARKER}\n\nUpgrade notes.`,
+        generated
+      )
+    ).toBe(`Known issues: none.\n\n${generated}\n\n${keep}\n\nUpgrade notes.`);
+    const metadata =
+      "<!-- release-notes-scribe:metadata head=abc1234 model=gpt-5.6-terra prompt=ff -->";
+    expect(mergeReleaseBody(`Old notes\n\n${keep}\n\n${metadata}`, generated)).toBe(
+      `${generated}\n\n${keep}`
+    );
+    expect(mergeReleaseBody(`Old notes\n\n${metadata}`, generated)).toBe(generated);
+    expect(mergeReleaseBody("Typed by hand.\n", generated)).toBe(
+      `${generated}\n\nTyped by hand.`
+    );
+    expect(mergeReleaseBody("", generated)).toBe(generated);
+    expect(diffTextLines("a\nb\nc", "a\nc\nd")).toEqual(["- b", "+ d"]);
+  });
+
+  it("keeps human edits around the generated notes of a draft release", async () =>
+    withRepo(async (repo) => {
+      commitFile(repo, "file.ts", "export const one = 1;", "feat: first", 1);
+      createTag(repo, "v1.0.0", 1);
+      commitFile(repo, "file.ts", "export const one = 2;", "fix: second", 2);
+      createTag(repo, "v1.1.0", 2);
+      const body = [
+        "## Known Issues",
+        "",
+        "- Upgrading needs a cache flush.",
+        "",
+        GENERATED_START_MARKER,
+        "## What's Changed",
+        "",
+        "- Old bullet",
+        GENERATED_END_MARKER,
+      ].join("\n");
+
+      const { coreMock, github } = await runMockedAction(
+        repo,
+        { include_contributors: "false" },
+        { id: 3, draft: true, body }
+      );
+
+      const updated = (github.calls.updateRelease[0] as { body: string }).body;
+      expect(updated.startsWith("## Known Issues\n\n- Upgrading needs a cache flush.\n\n")).toBe(
+        true
+      );
+      expect(updated).toContain(
+        `${GENERATED_START_MARKER}\n${coreMock.outputs.release_notes}\n\n<!-- release-notes-scribe:metadata`
+      );
+      expect(updated).not.toContain("Old bullet");
+      expect(coreMock.info.join("\n")).toContain(
+        "Generated notes for v1.1.0 changed:\n- - Old bullet\n+ - Generated notes"
+      );
+    }));
+
+  it("falls back to template notes when every model fails", async () =>
+    withRepo(async (repo) => {
+      commitFile(repo, "file.ts", "export const one = 1;", "feat: first", 1);
+      createTag(repo, "v1.0.0", 1);
+      commitFile(repo, "file.ts", "export const one = 2;", "fix: handle tags", 2);
+      createTag(repo, "v1.1.0", 2);
+      const sha = currentHead(repo);
+      const unavailable = () =>
+        makeFlakyOpenAIClient({
+          "gpt-5.6-terra": [apiError(401)],
+        }) as unknown as ReturnType<typeof makeOpenAIClient>;
+
+      const { coreMock, github } = await runMockedAction(
+        repo,
+        { on_model_failure: "fallback", include_contributors: "false" },
+        undefined,
+        undefined,
+        unavailable()
+      );
+
+      expect(coreMock.outputs.used_template_fallback).toBe("true");
+      expect(coreMock.outputs.notes_model).toBe("");
+      expect(coreMock.outputs.release_notes).toBe(
+        `## What's Changed\n\n${TEMPLATE_NOTES_NOTICE}\n\n### Bug Fixes\n\n- handle tags ([${sha.slice(0, 7)}](https://github.com/acme/widgets/commit/${sha}))`
+      );
+      expect(github.calls.createRelease).toHaveLength(1);
+      await expect(
+        runMockedAction(repo, {}, undefined, undefined, unavailable())
+      ).rejects.toThrow("401 error");
+    }));
+
+  it("keeps a rolling unreleased draft and finalizes it on tag", async () =>
+    withRepo(async (repo) => {
+      commitFile(repo, "file.ts", "export const one = 1;", "feat: first", 1);
+      createTag(repo, "v1.0.0", 1);
+      commitFile(repo, "file.ts", "export const one = 2;", "fix: second", 2);
+      const github = makeOctokit();
+      const run = async (inputs: Record<string, string>, ref: string) => {
+        const coreMock = makeCore({
+          openai_api_key: "openai-key",
+          github_token: "github-token",
+          include_contributors: "false",
+          ...inputs,
+        });
+        await runAction({
+          core: coreMock.core,
+          context: {
+            ref,
+            sha: currentHead(repo),
+            repo: { owner: "acme", repo: "widgets" },
+          },
+          env: {},
+          getOctokit: () => github.octokit,
+          createOpenAIClient: () => makeOpenAIClient().client,
+        } as ActionDependencies);
+        return coreMock;
+      };
+
+      const first = await run({ unreleased: "true" }, "refs/heads/main");
+      commitFile(repo, "file.ts", "export const one = 3;", "fix: third", 3);
+      const second = await run({ unreleased: "true" }, "refs/heads/main");
+      createTag(repo, "v1.1.0", 3);
+      await run({}, "refs/tags/v1.1.0");
+
+      expect(first.outputs.previous_tag).toBe("v1.0.0");
+      expect(first.outputs.commit_count).toBe("1");
+      expect(second.outputs.commit_count).toBe("2");
+      expect(github.calls.createRelease).toHaveLength(1);
+      expect(github.calls.createRelease[0]).toMatchObject({
+        tag_name: "unreleased",
+        name: "Unreleased",
+        draft: true,
+      });
+      expect(github.calls.updateRelease).toHaveLength(2);
+      expect(github.calls.updateRelease[0]).toMatchObject({
+        release_id: 1,
+        tag_name: "unreleased",
+      });
+      expect(github.calls.updateRelease[1]).toMatchObject({
+        release_id: 1,
+        tag_name: "v1.1.0",
+        name: "v1.1.0",
+      });
+      expect(github.releases).toHaveLength(1);
+      expect(github.releases[0].body).not.toContain(
+        "release-notes-scribe:unreleased"
+      );
+    }));
+
+  it("only finalizes the unreleased draft covering the same previous tag", async () => {
+    const github = makeOctokit();
+    github.releases.push({
+      id: 5,
+      html_url: "https://github.com/acme/widgets/releases/tag/unreleased",
+      draft: true,
+      body: "<!-- release-notes-scribe:unreleased since=v2.0.0 -->\nNotes",
+    });
+    const repoContext = {
+      repo: { owner: "acme", repo: "widgets" },
+      sha: "abc1234",
+    };
+
+    await writeRelease(
+      github.octokit,
+      repoContext,
+      "v1.0.1",
+      "v1.0.1",
+      "Maintenance notes",
+      true,
+      false,
+      "update_draft",
+      "v1.0.0"
+    );
+    await writeRelease(
+      github.octokit,
+      repoContext,
+      "v2.1.0",
+      "v2.1.0",
+      "Feature notes",
+      true,
+      false,
+      "update_draft",
+      "v2.0.0"
+    );
+
+    expect(github.calls.createRelease).toEqual([
+      expect.objectContaining({ tag_name: "v1.0.1" }),
+    ]);
+    expect(github.calls.updateRelease).toEqual([
+      expect.objectContaining({ release_id: 5, tag_name: "v2.1.0" }),
+    ]);
+  });
+
+  it("keeps one unreleased draft per previous tag", async () => {
+    const github = makeOctokit();
+    github.releases.push({
+      id: 5,
+      html_url: "https://github.com/acme/widgets/releases/tag/unreleased",
+      draft: true,
+      body: "<!-- release-notes-scribe:unreleased since=v2.0.0 -->\nNotes",
+    });
+    const repoContext = {
+      repo: { owner: "acme", repo: "widgets" },
+      sha: "abc1234",
+    };
+
+    await writeUnreleasedDraft(
+      github.octokit,
+      repoContext,
+      "Unreleased",
+      "Maintenance notes",
+      "v1.0.0"
+    );
+    await writeUnreleasedDraft(
+      github.octokit,
+      repoContext,
+      "Unreleased",
+      "Feature notes",
+      "v2.0.0"
+    );
+
+    expect(github.calls.createRelease).toEqual([
+      expect.objectContaining({
+        body: expect.stringContaining("since=v1.0.0"),
+      }),
+    ]);
+    expect(github.calls.updateRelease).toEqual([
+      expect.objectContaining({
+        release_id: 5,
+        body: expect.stringContaining("since=v2.0.0"),
+      }),
+    ]);
+  });
+
+  it("previews a pull request range in one sticky comment", async () =>
+    withRepo(async (repo) => {
+      commitFile(repo, "file.ts", "export const one = 1;", "feat: first", 1);
+      const base = currentHead(repo);
+      execFileSync("git", ["checkout", "-q", "-b", "feature"], { cwd: repo });
+      commitFile(repo, "file.ts", "export const one = 2;", "fix: adjust one", 2);
+      const head = currentHead(repo);
+      const github = makeOctokit();
+      const runPreview = async () => {
+        const coreMock = makeCore({
+          openai_api_key: "openai-key",
+          github_token: "github-token",
+          include_contributors: "false",
+        });
+        await runAction({
+          core: coreMock.core,
+          context: {
+            ref: "refs/pull/7/merge",
+            sha: head,
+            eventName: "pull_request",
+            payload: {
+              pull_request: {
+                number: 7,
+                base: { sha: base, ref: "main" },
+                head: { sha: head, ref: "feature" },
+              },
+            },
+            repo: { owner: "acme", repo: "widgets" },
+          },
+          env: {},
+          getOctokit: () => github.octokit,
+          createOpenAIClient: () => makeOpenAIClient().client,
+        } as ActionDependencies);
+        return coreMock;
+      };
+
+      const first = await runPreview();
+      const second = await runPreview();
+
+      expect(first.outputs.commit_count).toBe("1");
+      expect(first.outputs.previous_tag).toBe(base);
+      expect(first.outputs.release_url).toBe("");
+      expect(github.calls.getReleaseByTag).toHaveLength(0);
+      expect(github.calls.createComment).toHaveLength(1);
+      expect(github.calls.updateComment).toHaveLength(1);
+      expect(github.comments).toHaveLength(1);
+      expect(github.comments[0].body).toContain(
+        "## Release notes this pull request would contribute"
+      );
+      expect(github.comments[0].body).toContain("Generated notes");
+      expect(second.outputs.comment_url).toBe(
+        "https://github.com/acme/widgets/pull/7#issuecomment-1"
+      );
+    }));
+
+  it("previews an explicit base_ref..head_ref range without a tag", async () =>
+    withRepo(async (repo) => {
+      commitFile(repo, "file.ts", "export const one = 1;", "feat: first", 1);
+      commitFile(repo, "file.ts", "export const one = 2;", "fix: second", 2);
+      commitFile(repo, "file.ts", "export const one = 3;", "fix: third", 3);
+
+      const { coreMock, openAI, github } = await runMockedAction(repo, {
+        tag: "",
+        base_ref: "HEAD~2",
+      });
+
+      expect(coreMock.outputs.commit_count).toBe("2");
+      expect(openAIInput(openAI)).toContain("Release tag: HEAD");
+      expect(github.calls.createRelease).toHaveLength(0);
+      expect(github.calls.createComment).toHaveLength(0);
+      await expect(
+        runMockedAction(repo, { tag: "", base_ref: "missing-branch" })
+      ).rejects.toThrow("base_ref missing-branch not found");
+    }));
+
+  it("sets an empty previous_tag output for the first release", async () =>
+    withRepo(async (repo) => {
+      commitFile(repo, "file.ts", "export const one = 1;", "feat: first", 1);
+      createTag(repo, "v1.1.0", 1);
+
+      const { coreMock } = await runMockedAction(repo, {
+        create_release: "false",
+      });
+
+      expect(coreMock.outputs.previous_tag).toBe("");
+      expect(coreMock.outputs.commit_count).toBe("1");
+    }));
+});
+
+describe.sequential("command line interface", () => {
+  it("prints generated notes without contacting GitHub", async () =>
+    withRepo(async (repo) => {
+      commitFile(repo, "file.ts", "export const one = 1;", "feat: first", 1);
+      createTag(repo, "v1.0.0", 1);
+      commitFile(repo, "file.ts", "export const two = 2;", "feat: second", 2);
+      createTag(repo, "v1.1.0", 2);
+
+      const { stdout, stderr, openAI, github } = await runMockedCli([
+        "--tag",
+        "v1.1.0",
+        "--model",
+        "custom-model",
+      ]);
+
+      expect(stdout).toContain("Generated notes");
+      expect(stderr).toContain("v1.0.0..v1.1.0: 1 commit(s)");
+      expect(openAI.calls[0]).toMatchObject({ model: "custom-model" });
+      expect(openAIInput(openAI)).toContain("feat: second");
+      expect(github.calls.getReleaseByTag).toHaveLength(0);
+      expect(github.calls.createRelease).toHaveLength(0);
+    }));
+
+  it("prints the prompt on dry runs without an API key", async () =>
+    withRepo(async (repo) => {
+      commitFile(repo, "file.ts", "export const one = 1;", "feat: first", 1);
+      createTag(repo, "v1.0.0", 1);
+
+      const { stdout, openAI } = await runMockedCli(
+        ["--tag", "v1.0.0", "--dry-run"],
+        {}
+      );
+
+      expect(stdout).toContain("Release tag: v1.0.0");
+      expect(stdout).toContain("feat: first");
+      expect(openAI.calls).toHaveLength(0);
+    }));
+
+  it("labels --unreleased runs Unreleased like the action", async () =>
+    withRepo(async (repo) => {
+      commitFile(repo, "file.ts", "export const one = 1;", "feat: first", 1);
+      createTag(repo, "v1.0.0", 1);
+      commitFile(repo, "file.ts", "export const one = 2;", "fix: second", 2);
+
+      const { stdout, stderr } = await runMockedCli(["--unreleased", "--dry-run"], {});
+
+      expect(stdout).toContain("Release tag: Unreleased");
+      expect(stdout).toContain("fix: second");
+      expect(stderr).toContain("v1.0.0..HEAD: 1 commit(s)");
+    }));
+
+  it("writes notes to --out and publishes a draft when asked", async () =>
+    withRepo(async (repo) => {
+      commitFile(repo, "file.ts", "export const one = 1;", "feat: first", 1);
+      createTag(repo, "v1.0.0", 1);
+      const outPath = join(repo, "notes.md");
+
+      const { stdout, github } = await runMockedCli(
+        ["--tag", "v1.0.0", "--out", outPath, "--publish", "--repo", "acme/widgets"],
+        { OPENAI_API_KEY: "openai-key", GITHUB_TOKEN: "github-token" }
+      );
+
+      expect(stdout).toBe("");
+      expect(readFileSync(outPath, "utf8")).toContain("Generated notes");
+      expect(github.calls.createRelease).toHaveLength(1);
+      expect(github.calls.createRelease[0]).toMatchObject({
+        owner: "acme",
+        repo: "widgets",
+        tag_name: "v1.0.0",
+        draft: true,
+        target_commitish: currentHead(repo),
+      });
+    }));
+
+  it("requires a GitHub token only when publishing", async () =>
+    withRepo(async (repo) => {
+      commitFile(repo, "file.ts", "export const one = 1;", "feat: first", 1);
+      createTag(repo, "v1.0.0", 1);
+
+      await expect(
+        runMockedCli(["--tag", "v1.0.0", "--publish", "--repo", "acme/widgets"])
+      ).rejects.toThrow("GITHUB_TOKEN is not set");
     }));
 });
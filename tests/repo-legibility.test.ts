@@ -139,6 +139,7 @@ describe("documentation governance", () => {
       "max_diff_lines",
       "max_commits",
       "max_stage_chars",
+      "max_stage_tokens",
       "draft",
       "prerelease",
       "create_release",